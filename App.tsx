@@ -6,27 +6,51 @@ import {
   SelectedSteps, 
   ExtractionStats, 
   OcrPage,
+  NativePage,
+  HeadlineCandidate,
+  FootnoteMark,
+  StructureHintMode,
+  PageSelection,
+  ImagePreprocessing,
+  ReOcrOptions,
   ChatEntry
 } from './types';
 import { 
-  extractTextFromFile, 
-  getPdfPageCount,
+  extractNativePagesFromFile,
+  findPagesNeedingOcr,
   loadPdfDocument
 } from './services/pdfExtractor';
 import { 
   performOcrOnPdf,
+  performOcrOnSelectedPages,
   detectDocumentLanguage, 
   transformJsonToText,
   processDocumentChunk,
   chatAboutRefinement,
   performOcrOnPageTextOnly,
+  reOcrPage,
   linearizeTableFromPdf,
   extractTextWithOcr,
   validateStructuralIntegrity,
-  MODEL_FAST,
-  MODEL_STRICT,
-  guardStep3ConservativeOutput
+  guardStep3ConservativeOutput,
+  isAbortError,
+  createAbortError,
+  LlmError,
+  runScheduled,
+  getSchedulerConfig,
+  configureScheduler,
+  getResponseCacheStats,
+  clearResponseCache,
+  setUsageStep,
+  setUsageBudget,
+  getUsageSnapshot,
+  wouldExceedBudget,
+  getProcessingPolicy,
+  describeProcessingPolicy,
+  getProviderKind
 } from './services/geminiService';
+import type { ResponseCacheStats } from './services/responseCache';
+import { buildSessionReport } from './services/sessionReport';
 import { 
   getChunksForStep1A,
   getChunksForStep2,
@@ -37,6 +61,8 @@ import {
 } from './services/chunkingService';
 import { 
     getTaskInstructionsForStep1_Headlines,
+    getHeadlineHintsSection,
+    getFootnoteHintsSection,
     getTaskInstructionsForStep1_Footnotes,
     getTaskInstructionsForStep2_Content,
     getTaskInstructionsForStep3_BatchFix,
@@ -49,10 +75,21 @@ import { ProcessingIndicator } from './components/ProcessingIndicator';
 import { ConfigurationScreen } from './components/ConfigurationScreen';
 import { ResultViewer, DownloadVersion, ResultViewerRef } from './components/ResultViewer';
 import { OcrReviewer } from './components/OcrReviewer';
+import { LayoutReviewer } from './components/LayoutReviewer';
+import { PageSelector } from './components/PageSelector';
+import { HeaderFooterReviewer } from './components/HeaderFooterReviewer';
+import { HeaderFooterReport, RemovedLine, detectRunningHeadersFooters, removeReportedLines } from './services/processors/runningHeaders';
+import { findHeadlineCandidates, formatHeadlineHints, applyHeadlineCandidates } from './services/processors/headlineCandidates';
+import { applyFootnoteMarks, formatFootnoteHints } from './services/processors/footnoteMarks';
+import { hasPageAnchors, isPageAnchorLine, joinPagesWithAnchors, splitLeadingPageAnchor, stripPageAnchors } from './services/processors/pageAnchors';
+import { formatPageRanges } from './services/processors/pageSelection';
+import { remapLineBoxes } from './services/processors/ocrLineBoxes';
+import { NO_PREPROCESSING, describePreprocessing, hasPreprocessing } from './services/preprocessingPresets';
 import { JsonReviewer } from './components/JsonReviewer';
 import { CorrectionsReviewer } from './components/CorrectionsReviewer';
 import { ReviewChangesModal } from './components/ReviewChangesModal'; 
 import { DevToolsScreen } from './components/DevToolsScreen';
+import { ApiKeySettings } from './components/ApiKeySettings';
 import { PerformanceTracker } from './components/PerformanceTracker';
 import { usePerformanceTracker } from './hooks/usePerformanceTracker';
 import { SUPPORTED_LANGUAGES } from './constants';
@@ -62,7 +99,26 @@ import { CogIcon, SparklesIcon, ArrowRightIcon } from './components/icons';
 const BASE_CHUNK_SIZE_QUALITY = 80000; // Matches Cleaning Limit (Aggressive)
 const BASE_CHUNK_SIZE_FAST = 28000;    // Matches Step 1/2 Limit
 const OVERLAP_CONTEXT_SIZE = 400; 
-const PAGE_BREAK_MARKER = '\n\n--- PAGE BREAK ---\n\n';
+
+// Chunked steps that keep their partial output when stopped, so they can be resumed.
+type ResumableStep = 'cleaning' | 'step1' | 'step1_5' | 'step2' | 'step3';
+
+type PartialRun = {
+  step: ResumableStep;
+  sourceText: string; // Text the chunks were built from; resume is only valid while it is unchanged.
+  chunks: string[];
+  results: (string | undefined)[]; // Indexed like chunks; undefined = not processed yet
+};
+
+const countDone = (results: (string | undefined)[]) => results.filter(r => r !== undefined).length;
+
+const RESUMABLE_STEP_LABELS: Record<ResumableStep, string> = {
+  cleaning: 'Smart Cleaning',
+  step1: 'Step 1: Headlines',
+  step1_5: 'Step 1.5: Footnotes',
+  step2: 'Step 2: Content',
+  step3: 'Step 3: Audit',
+};
 
 // --- INLINE COMPONENTS RESTORED ---
 
@@ -84,7 +140,7 @@ const TitleInputModal: React.FC<TitleInputModalProps> = ({ isOpen, initialText =
         // Get first 6 non-empty lines to analyze
         const lines = initialText.split('\n')
             .map(l => l.trim())
-            .filter(line => line.length > 0)
+            .filter(line => line.length > 0 && !isPageAnchorLine(line))
             .slice(0, 6);
 
         if (lines.length === 0) return [];
@@ -202,7 +258,7 @@ const ComparisonFilePrompt: React.FC<ComparisonFilePromptProps> = ({ onFileProvi
 export default function App() {
   const [file, setFile] = useState<File | null>(null);
   const [processingState, setProcessingState] = useState<ProcessingState>(ProcessingState.IDLE);
-  const [processingMode, setProcessingMode] = useState<ProcessingMode>(ProcessingMode.QUALITY);
+  const [processingMode, setProcessingMode] = useState<ProcessingMode>(ProcessingMode.FAST);
 
   // Text States
   const [currentText, setCurrentText] = useState<string>("");
@@ -257,9 +313,31 @@ export default function App() {
   const [translatedText, setTranslatedText] = useState<string>("");
 
   // Stats
-  const { elapsedTime, apiCalls, isRunning, startTimer, stopTimer, resetTimer, incrementApiCalls } = usePerformanceTracker();
+  const { elapsedTime, apiCalls, usage, isRunning, startTimer, stopTimer, resetTimer, incrementApiCalls, incrementCacheHits } = usePerformanceTracker();
   const [extractionStats, setExtractionStats] = useState<ExtractionStats | null>(null);
-  const shouldStopRef = useRef(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const [partialRun, setPartialRun] = useState<PartialRun | null>(null);
+  const [ocrTotalPages, setOcrTotalPages] = useState<number>(0);
+  // Pages chosen after upload, and whether they go to extraction or the table processor
+  const [pageSelection, setPageSelection] = useState<PageSelection | null>(null);
+  const [pageSelectionTarget, setPageSelectionTarget] = useState<'extract' | 'table'>('extract');
+  // Image preprocessing chosen for this document's page renders (OCR and table processing)
+  const [ocrPreprocessing, setOcrPreprocessing] = useState<ImagePreprocessing>(NO_PREPROCESSING);
+  // Font-based headline proposals from native extraction, and how Step 1 uses them
+  const [headlineCandidates, setHeadlineCandidates] = useState<HeadlineCandidate[]>([]);
+  const [headlineHintMode, setHeadlineHintMode] = useState<StructureHintMode>('hints');
+  // Superscript references and bottom-of-page notes from native extraction, and how Step 1.5 uses them
+  const [footnoteMarks, setFootnoteMarks] = useState<FootnoteMark[]>([]);
+  const [footnoteHintMode, setFootnoteHintMode] = useState<StructureHintMode>('hints');
+  const [headerFooterReport, setHeaderFooterReport] = useState<HeaderFooterReport | null>(null);
+  // Native PDF pages with their column layout, while the reading order is reviewed
+  const [layoutPages, setLayoutPages] = useState<NativePage[]>([]);
+  // Hybrid PDFs: native text of each selected page (pageNumbers), and which pages were sent to OCR instead
+  const [hybridPlan, setHybridPlan] = useState<{ nativePages: string[]; pageNumbers: number[]; ocrPageNumbers: number[] } | null>(null);
+  const [concurrency, setConcurrency] = useState<number>(() => getSchedulerConfig().concurrency);
+  const [bypassCache, setBypassCache] = useState(false);
+  const [cacheStats, setCacheStats] = useState<ResponseCacheStats | null>(null);
+  const [liveOutput, setLiveOutput] = useState<{ label: string; text: string } | null>(null);
 
   const resultViewerRef = useRef<ResultViewerRef>(null);
   const tableFileInputRef = useRef<HTMLInputElement>(null);
@@ -279,10 +357,11 @@ export default function App() {
         return;
     }
 
+    targetSize *= getProcessingPolicy(processingMode).chunkSizeFactor;
     const idealChunks = Math.max(1, Math.ceil(currentText.length / targetSize));
     setChunkSize(idealChunks);
 
-  }, [processingState, currentText]);
+  }, [processingState, currentText, processingMode]);
 
   // --- HISTORY MANAGEMENT ---
   const updateText = useCallback((newText: string, recordHistory = true) => {
@@ -323,12 +402,128 @@ export default function App() {
       }
   };
 
+  // --- CANCELLATION ---
+  // Every run gets a fresh AbortController; Stop aborts in-flight requests and backoff waits.
+  // `usageStep` attributes the run's token usage in the usage ledger.
+  const beginRun = (usageStep: string): AbortSignal => {
+      setUsageStep(usageStep);
+      setLiveOutput(null);
+      abortControllerRef.current?.abort();
+      const controller = new AbortController();
+      abortControllerRef.current = controller;
+      return controller.signal;
+  };
+
+  // Streamed text of whichever chunk/page reported last (several run in parallel).
+  const showLiveOutput = (text: string, label: string) => setLiveOutput({ label, text });
+
   const handleStopProcessing = () => {
-      shouldStopRef.current = true;
+      abortControllerRef.current?.abort();
       stopTimer();
       setProcessingState(ProcessingState.SUCCESS);
   };
 
+  /**
+   * Shared chunk runner for the step handlers. Chunks run in parallel through the scheduler
+   * and come back in order. Resumes a matching partial run if one exists.
+   * Returns the per-chunk results, or null when stopped (finished chunks are kept).
+   * If a usage budget is set, no new chunk starts once its estimated cost would exceed it.
+   * A chunk the model refuses (SAFETY_BLOCK) or that still truncates at the smallest split
+   * keeps its original text and is listed in failedChunks. Any other error ends the step:
+   * it is logged, the text stays as it was, and null is returned.
+   */
+  const runChunkedStep = async (
+      step: ResumableStep,
+      buildChunks: () => string[],
+      processChunk: (chunks: string[], index: number, signal: AbortSignal) => Promise<string>
+  ): Promise<string[] | null> => {
+      const signal = beginRun(step);
+      if (bypassCache) {
+          addToLog('> Response cache bypassed for this run.');
+          setBypassCache(false);
+      }
+      const resume = partialRun && partialRun.step === step && partialRun.sourceText === currentText ? partialRun : null;
+      const chunks = resume ? resume.chunks : buildChunks();
+      const alreadyDone = resume ? resume.results : [];
+      setPartialRun(null);
+      setFailedChunks([]);
+      addToLog(`> ${describeProcessingPolicy(processingMode)}`);
+      addToLog(resume
+          ? `> Resuming: ${countDone(alreadyDone)} of ${chunks.length} chunks already done.`
+          : `> Split into ${chunks.length} chunks (up to ${getSchedulerConfig().concurrency} in parallel).`);
+
+      // Next chunk's cost is estimated as the average cost per chunk so far in this run.
+      const costAtStart = getUsageSnapshot().total.cost;
+      let chunksFinished = 0;
+      let budgetReached = false;
+
+      let scheduled: (string | undefined)[];
+      try {
+          scheduled = await runScheduled(
+              chunks,
+              async (_chunk, i) => {
+                  const spent = getUsageSnapshot().total.cost - costAtStart;
+                  if (budgetReached || wouldExceedBudget(chunksFinished > 0 ? spent / chunksFinished : 0)) {
+                      budgetReached = true;
+                      throw createAbortError(); // Stops new chunks; in-flight ones still finish.
+                  }
+                  let result: string;
+                  try {
+                      result = await processChunk(chunks, i, signal);
+                      // Retries ran out (e.g. a QUALITY guard kept rejecting it): keep the source chunk.
+                      if (result.startsWith('[ERROR')) {
+                          addToLog(`⛔ Chunk ${i + 1}/${chunks.length}: ${result.slice(1, 200)}. Original text kept.`);
+                          setFailedChunks(prev => [...prev, i + 1].sort((a, b) => a - b));
+                          result = chunks[i];
+                      }
+                  } catch (e) {
+                      if (!(e instanceof LlmError) || (e.kind !== 'SAFETY_BLOCK' && e.kind !== 'TRUNCATION')) throw e;
+                      addToLog(`⛔ [${e.kind}] Chunk ${i + 1}/${chunks.length}: ${e.message}. Original text kept.`);
+                      setFailedChunks(prev => [...prev, i + 1].sort((a, b) => a - b));
+                      result = chunks[i];
+                  }
+                  chunksFinished++;
+                  return result;
+              },
+              {
+                  signal,
+                  skip: (i) => alreadyDone[i] !== undefined,
+                  onItemDone: (_i, _result, completed) => setProgress(Math.round((completed / chunks.length) * 100)),
+              }
+          );
+      } catch (e) {
+          if (isAbortError(e)) return null;
+          console.error(e);
+          const kind = e instanceof LlmError ? `[${e.kind}] ` : '';
+          addToLog(`⛔ ${kind}Step failed: ${(e as Error).message}`);
+          stopTimer();
+          setProcessingState(ProcessingState.SUCCESS);
+          return null;
+      }
+      const results = scheduled.map((result, i) => result ?? alreadyDone[i]);
+
+      if (signal.aborted || results.some(r => r === undefined)) {
+          setPartialRun({ step, sourceText: currentText, chunks, results });
+          if (budgetReached) {
+              const { total, budgetUsd } = getUsageSnapshot();
+              addToLog(`⏸ Budget of $${budgetUsd?.toFixed(2)} reached ($${total.cost.toFixed(4)} spent). Raise it in the debug stats panel to resume.`);
+              stopTimer();
+              setProcessingState(ProcessingState.SUCCESS);
+          }
+          addToLog(`> Stopped after ${countDone(results)}/${chunks.length} chunks. Partial results kept for resume.`);
+          return null;
+      }
+      return results as string[];
+  };
+
+  // The mode brings its own parallelism; the Parallel Requests setting can still override it per step.
+  const handleProcessingModeChange = (mode: ProcessingMode) => {
+      const { concurrency: modeConcurrency } = getProcessingPolicy(mode);
+      setProcessingMode(mode);
+      configureScheduler({ concurrency: modeConcurrency });
+      setConcurrency(modeConcurrency);
+  };
+
   const handleReset = () => {
       setFile(null);
       setProcessingState(ProcessingState.IDLE);
@@ -341,6 +536,14 @@ export default function App() {
       setTextAfterStep2(null);
       setTextAfterStep3(null);
       setReferenceText("");
+      setPartialRun(null);
+      setHybridPlan(null);
+      setPageSelection(null);
+      setOcrPreprocessing(NO_PREPROCESSING);
+      setLayoutPages([]);
+      setHeaderFooterReport(null);
+      setHeadlineCandidates([]);
+      setFootnoteMarks([]);
       resetTimer();
   };
 
@@ -349,14 +552,11 @@ export default function App() {
       setFile(selectedFile);
       setActivityLog([]);
       setExtractionStats(null);
-      startTimer();
-      shouldStopRef.current = false;
 
       if (selectedFile.type === 'application/json' || selectedFile.name.endsWith('.json')) {
           const text = await selectedFile.text();
           setJsonContent(text);
           setProcessingState(ProcessingState.REVIEWING_JSON);
-          stopTimer();
           return;
       }
 
@@ -364,92 +564,278 @@ export default function App() {
            const text = await selectedFile.text();
            setTxtFileContent(text);
            setProcessingState(ProcessingState.AWAITING_TXT_ACTION);
-           stopTimer();
            return;
       }
 
+      // PDFs: the pages to process are chosen first, then handlePageSelectionConfirm extracts them.
+      setPageSelectionTarget('extract');
+      setProcessingState(ProcessingState.SELECTING_PAGES);
+  };
+
+  const handleTableFileSelect = (selectedFile: File) => {
+      handleReset();
+      setFile(selectedFile);
+      setPageSelectionTarget('table');
+      setProcessingState(ProcessingState.SELECTING_PAGES);
+  };
+
+  const handlePageSelectionConfirm = async (selection: PageSelection, preprocessing: ImagePreprocessing) => {
+      if (!file) return;
+      setPageSelection(selection);
+      setOcrPreprocessing(preprocessing);
+      if (selection.pages.length < selection.pageCount) {
+          addToLog(`> Page selection: ${formatPageRanges(selection.pages)} (${selection.pages.length} of ${selection.pageCount} pages).`);
+      }
+      if (hasPreprocessing(preprocessing)) addToLog(`> Image preprocessing: ${describePreprocessing(preprocessing)}.`);
+      if (pageSelectionTarget === 'table') {
+          await handleTableLinearization(file, selection.pages, preprocessing);
+          return;
+      }
+
+      startTimer();
+      const signal = beginRun('ocr');
       setProcessingState(ProcessingState.EXTRACTING);
       try {
-          const pageCount = await getPdfPageCount(selectedFile);
-          const text = await extractTextFromFile(selectedFile, setProgress);
-
-          if (text.includes("requires an OCR process")) {
-               setProcessingState(ProcessingState.OCR);
-               const ocrResults = await performOcrOnPdf(
-                   selectedFile, 
-                   incrementApiCalls, 
-                   ProcessingMode.FAST, 
-                   documentLanguage, 
-                   setProgress, 
-                   (msg) => addToLog(msg)
-                );
-               setOcrPages(ocrResults);
-               setProcessingState(ProcessingState.REVIEWING_OCR);
-               setExtractionStats({
-                   method: 'OCR (All Pages)',
-                   totalPages: pageCount,
-                   textPages: 0,
-                   imagePages: pageCount,
-                   averageCharsPerPage: ocrResults.reduce((acc, p) => acc + p.ocrText.length, 0) / pageCount
-               });
+          const nativePages = await extractNativePagesFromFile(file, setProgress, signal, { pages: selection.pages });
+          const ocrPageNumbers = findPagesNeedingOcr(nativePages);
+          const multiColumnPages = nativePages.filter(p => p.columnCount > 1 && !ocrPageNumbers.includes(p.pageNumber));
+          setHeadlineCandidates(findHeadlineCandidates(nativePages.flatMap(p => p.lines)));
+          setFootnoteMarks(nativePages.flatMap(p => p.footnotes));
+
+          if (multiColumnPages.length > 0) {
+              // Column detection can misjudge a page; let the user check the reading order first.
+              addToLog(`> Multi-column layout detected on pages ${multiColumnPages.map(p => p.pageNumber).join(', ')}.`);
+              setLayoutPages(nativePages);
+              setProcessingState(ProcessingState.REVIEWING_LAYOUT);
           } else {
-              setInitialExtractedText(text);
-              setCurrentText(text);
-              updateText(text);
-              setReferenceText(text); 
-              setProcessingState(ProcessingState.CONFIGURING_CLEANING);
-              setExtractionStats({
-                   method: 'Native Text',
-                   totalPages: pageCount,
-                   textPages: pageCount,
-                   imagePages: 0,
-                   averageCharsPerPage: text.length / pageCount
-               });
+              await extractFromNativePages(file, nativePages, selection, preprocessing, signal);
           }
       } catch (e) {
+          handleExtractionError(e);
+      }
+      stopTimer();
+  };
+
+  const handleExtractionError = (e: unknown) => {
+      if (isAbortError(e)) {
+          setProcessingState(ProcessingState.IDLE);
+      } else {
           console.error(e);
           setProcessingState(ProcessingState.ERROR);
       }
+  };
+
+  /** Continues a PDF from its native pages (the selected ones): OCR for all, some or none of them. */
+  const extractFromNativePages = async (
+      selectedFile: File,
+      pages: NativePage[],
+      selection: PageSelection | null,
+      preprocessing: ImagePreprocessing,
+      signal: AbortSignal
+  ) => {
+      const pageCount = pages.length;
+      const pageNumbers = pages.map(p => p.pageNumber);
+      const skippedPages = selection ? selection.pageCount - selection.pages.length : 0;
+      const ocrPageNumbers = findPagesNeedingOcr(pages);
+
+      if (ocrPageNumbers.length === pageCount) {
+           setProcessingState(ProcessingState.OCR);
+           addToLog(`> ${describeProcessingPolicy(processingMode)}`);
+           setOcrTotalPages(pageCount);
+           const ocrResults = await performOcrOnPdf(
+               selectedFile, 
+               incrementApiCalls, 
+               processingMode, 
+               documentLanguage, 
+               setProgress, 
+               (msg) => addToLog(msg),
+               signal,
+               { onPartialText: showLiveOutput, pages: pageNumbers, preprocessing, withLineBoxes: true }
+            );
+           // On stop, the pages finished so far are still reviewed; the rest can be resumed.
+           setOcrPages(ocrResults);
+           setProcessingState(ProcessingState.REVIEWING_OCR);
+           setExtractionStats({
+               method: 'OCR (All Pages)',
+               totalPages: pageCount,
+               textPages: 0,
+               imagePages: pageCount,
+               skippedPages,
+               averageCharsPerPage: ocrResults.reduce((acc, p) => acc + p.ocrText.length, 0) / pageCount
+           });
+      } else if (ocrPageNumbers.length > 0) {
+          setProcessingState(ProcessingState.PROCESSING_HYBRID_PDF);
+          addToLog(`> ${describeProcessingPolicy(processingMode)}`);
+          addToLog(`> Hybrid PDF: ${pageCount - ocrPageNumbers.length} pages with native text, OCR for pages ${ocrPageNumbers.join(', ')}.`);
+          setHybridPlan({ nativePages: pages.map(p => p.text), pageNumbers, ocrPageNumbers });
+          setOcrTotalPages(ocrPageNumbers.length);
+          const ocrResults = await performOcrOnSelectedPages(
+              selectedFile,
+              ocrPageNumbers,
+              incrementApiCalls,
+              processingMode,
+              documentLanguage,
+              setProgress,
+              (msg) => addToLog(msg),
+              signal,
+              { onPartialText: showLiveOutput, preprocessing, withLineBoxes: true }
+          );
+          setOcrPages(ocrResults);
+          setProcessingState(ProcessingState.REVIEWING_OCR);
+          const nativeChars = pages.reduce((acc, p) => acc + (ocrPageNumbers.includes(p.pageNumber) ? 0 : p.text.length), 0);
+          setExtractionStats({
+              method: 'Hybrid (Text + OCR)',
+              totalPages: pageCount,
+              textPages: pageCount - ocrPageNumbers.length,
+              imagePages: ocrPageNumbers.length,
+              skippedPages,
+              averageCharsPerPage: (nativeChars + ocrResults.reduce((acc, p) => acc + p.ocrText.length, 0)) / pageCount
+          });
+      } else {
+          const text = joinPagesWithAnchors(pages.map(p => p.text), pageNumbers).trim();
+          beginCleaningStage(text);
+          setExtractionStats({
+               method: 'Native Text',
+               totalPages: pageCount,
+               textPages: pageCount,
+               imagePages: 0,
+               skippedPages,
+               averageCharsPerPage: text.length / pageCount
+           });
+      }
+  };
+
+  // Pages going to OCR have no text layout worth reviewing.
+  const reviewableLayoutPages = useMemo(() => {
+      const ocrPageNumbers = findPagesNeedingOcr(layoutPages);
+      return layoutPages.filter(p => !ocrPageNumbers.includes(p.pageNumber));
+  }, [layoutPages]);
+
+  const handleLayoutConfirm = async (reviewedPages: NativePage[]) => {
+      if (!file) return;
+      const reviewed = new Map(reviewedPages.map(p => [p.pageNumber, p]));
+      const pages = layoutPages.map(p => reviewed.get(p.pageNumber) ?? p);
+      setLayoutPages(pages);
+      setHeadlineCandidates(findHeadlineCandidates(pages.flatMap(p => p.lines)));
+      setFootnoteMarks(pages.flatMap(p => p.footnotes));
+      startTimer();
+      const signal = beginRun('ocr');
+      try {
+          await extractFromNativePages(file, pages, pageSelection, ocrPreprocessing, signal);
+      } catch (e) {
+          handleExtractionError(e);
+      }
       stopTimer();
   };
 
+  const handleResumeOcr = async (editedTexts: string[]) => {
+      if (!file) return;
+      const donePages = ocrPages.map((p, i) => {
+          const ocrText = editedTexts[i] ?? p.ocrText;
+          return { ...p, ocrText, lineBoxes: p.lineBoxes && remapLineBoxes(p.lineBoxes, p.ocrText, ocrText) };
+      });
+      setProcessingState(hybridPlan ? ProcessingState.PROCESSING_HYBRID_PDF : ProcessingState.OCR);
+      startTimer();
+      const signal = beginRun('ocr');
+      const nextPage = hybridPlan
+          ? hybridPlan.ocrPageNumbers[donePages.length]
+          : pageSelection?.pages[donePages.length] ?? donePages.length + 1;
+      addToLog(`> Resuming OCR at page ${nextPage} (${donePages.length + 1} of ${ocrTotalPages} to OCR).`);
+      try {
+          const moreResults = hybridPlan
+              ? await performOcrOnSelectedPages(
+                    file,
+                    hybridPlan.ocrPageNumbers.slice(donePages.length),
+                    incrementApiCalls,
+                    processingMode,
+                    documentLanguage,
+                    setProgress,
+                    (msg) => addToLog(msg),
+                    signal,
+                    { onPartialText: showLiveOutput, preprocessing: ocrPreprocessing, withLineBoxes: true }
+                )
+              : await performOcrOnPdf(
+                    file,
+                    incrementApiCalls,
+                    processingMode,
+                    documentLanguage,
+                    setProgress,
+                    (msg) => addToLog(msg),
+                    signal,
+                    {
+                        startPage: (donePages[donePages.length - 1]?.pageNumber ?? 0) + 1,
+                        onPartialText: showLiveOutput,
+                        pages: pageSelection?.pages,
+                        preprocessing: ocrPreprocessing,
+                        withLineBoxes: true,
+                    }
+                );
+          setOcrPages([...donePages, ...moreResults]);
+          setProcessingState(ProcessingState.REVIEWING_OCR);
+      } catch (e) {
+          // The pages OCR'd before the failure stay in review; resuming again picks up from there.
+          if (!isAbortError(e)) {
+              console.error(e);
+              const kind = e instanceof LlmError ? `[${e.kind}] ` : '';
+              addToLog(`⛔ ${kind}Resume OCR failed: ${(e as Error).message}`);
+          }
+          setOcrPages(donePages);
+          setProcessingState(ProcessingState.REVIEWING_OCR);
+      }
+      stopTimer();
+  };
+
+  const handleReOcrPage = (pageNumber: number, options: ReOcrOptions, signal: AbortSignal): Promise<OcrPage> => {
+      if (!file) return Promise.reject(new Error('No document loaded.'));
+      addToLog(`> Re-OCR page ${pageNumber}${options.model ? ` with ${options.model}` : ''}...`);
+      return reOcrPage(file, pageNumber, documentLanguage, processingMode, options, incrementApiCalls, (msg) => addToLog(msg), signal);
+  };
+
+  const handleReplaceOcrPage = (index: number, page: OcrPage) => {
+      setOcrPages(prev => prev.map((p, i) => (i === index ? page : p)));
+      addToLog(`✓ Page ${page.pageNumber}: re-OCR result accepted.`);
+  };
+
   const handleStartCleaning = async () => {
     setProcessingState(ProcessingState.CLEANING);
     setCurrentActivity('Running Smart AI Cleaning...');
     setActivityLog([]);
     setProgress(0);
     startTimer();
-    shouldStopRef.current = false;
-
-    const chunks = createChunksByCount(currentText, chunkSize);
-    const totalChunks = chunks.length;
-    const cleanedChunks: string[] = [];
-    addToLog(`> Split into ${totalChunks} chunks.`);
-
-    for (let i = 0; i < totalChunks; i++) {
-        if (shouldStopRef.current) break;
-        setCurrentActivity(`Cleaning chunk ${i + 1} of ${totalChunks}...`);
-
-        try {
-            const cleanedText = await processDocumentChunk({
-                main_chunk_content: chunks[i],
-                continuous_context_summary: cleanedChunks.length > 0 ? cleanedChunks[cleanedChunks.length - 1].slice(-1000) : '',
-                previous_chunk_overlap: i > 0 ? chunks[i - 1].slice(-OVERLAP_CONTEXT_SIZE) : '',
-                next_chunk_overlap: i < totalChunks - 1 ? chunks[i + 1].slice(0, OVERLAP_CONTEXT_SIZE) : '',
-                task_instructions: getTaskInstructionsForCleaning(documentLanguage),
-                onApiCall: incrementApiCalls,
-                mode: ProcessingMode.QUALITY,
-                language: documentLanguage,
-                model: MODEL_STRICT
-            });
-            cleanedChunks.push(cleanedText.startsWith('[ERROR') ? chunks[i] : cleanedText);
-        } catch (e) {
-            cleanedChunks.push(chunks[i]);
+
+    const cleanedChunks = await runChunkedStep(
+        'cleaning',
+        () => createChunksByCount(currentText, chunkSize),
+        async (chunks, i, signal) => {
+            const totalChunks = chunks.length;
+            setCurrentActivity(`Cleaning chunk ${i + 1} of ${totalChunks}...`);
+            try {
+                const cleanedText = await processDocumentChunk({
+                    main_chunk_content: chunks[i],
+                    // Chunks run in parallel, so the context is the previous source chunk, not its cleaned output.
+                    continuous_context_summary: i > 0 ? chunks[i - 1].slice(-1000) : '',
+                    previous_chunk_overlap: i > 0 ? chunks[i - 1].slice(-OVERLAP_CONTEXT_SIZE) : '',
+                    next_chunk_overlap: i < totalChunks - 1 ? chunks[i + 1].slice(0, OVERLAP_CONTEXT_SIZE) : '',
+                    task_instructions: getTaskInstructionsForCleaning(documentLanguage),
+                    onApiCall: incrementApiCalls,
+                    onLog: addToLog,
+                    mode: processingMode,
+                    language: documentLanguage,
+                    step: 'cleaning',
+                    signal,
+                    bypassCache,
+                    onCacheHit: incrementCacheHits,
+                    onPartialText: (text) => showLiveOutput(text, `Chunk ${i + 1}/${totalChunks}`)
+                });
+                return cleanedText.startsWith('[ERROR') ? chunks[i] : cleanedText;
+            } catch (e) {
+                if (isAbortError(e) || (e instanceof LlmError && (e.kind === 'SAFETY_BLOCK' || e.kind === 'TRUNCATION'))) throw e;
+                return chunks[i];
+            }
         }
-        setProgress(Math.round(((i + 1) / totalChunks) * 100));
-    }
+    );
 
-    if (shouldStopRef.current) { handleStopProcessing(); return; }
+    if (!cleanedChunks) return;
 
     const finalCleanedText = cleanedChunks.join('\n\n');
     stopTimer();
@@ -465,15 +851,18 @@ export default function App() {
                      const cleanTitle = title.trim();
                      let textWithTitle = finalCleanedText;
                      if (cleanTitle) {
+                         // The title goes after the leading {{page 1}} anchor and never wraps an anchor.
+                         const { anchor, body } = splitLeadingPageAnchor(finalCleanedText);
                          const escaped = cleanTitle.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
                          const flexiblePattern = escaped.replace(/\s+/g, '[\\s\\n\\r]+');
                          const reg = new RegExp(flexiblePattern, 'i');
-                         const match = reg.exec(finalCleanedText);
+                         const match = reg.exec(body);
 
-                         if (match && match.index !== undefined && match.index < 500) {
-                             textWithTitle = finalCleanedText.replace(reg, `{{level0}}$&{{-level0}}`);
+                         if (match && match.index < 500 && !hasPageAnchors(match[0])) {
+                             const end = match.index + match[0].length;
+                             textWithTitle = `${anchor}${body.slice(0, match.index)}{{level0}}${match[0]}{{-level0}}${body.slice(end)}`;
                          } else {
-                             textWithTitle = `{{level0}}${cleanTitle}{{-level0}}\n\n${finalCleanedText}`;
+                             textWithTitle = `${anchor}{{level0}}${cleanTitle}{{-level0}}\n\n${body}`;
                          }
                      }
                      setInitialExtractedText(textWithTitle);
@@ -496,30 +885,38 @@ export default function App() {
   };
 
   const handleStartStep1 = async () => {
+      if (headlineHintMode === 'direct' && headlineCandidates.length > 0) {
+          const { text: taggedText, tagged } = applyHeadlineCandidates(currentText, headlineCandidates);
+          addToLog(`> Step 1 from fonts: ${tagged} headlines tagged without a model.`);
+          setPendingChanges({
+              oldText: currentText, newText: taggedText, stepTitle: "Step 1: Headlines (from fonts)",
+              onAccept: () => { setTextAfterStep1(taggedText); updateText(taggedText); setPendingChanges(null); setProcessingState(ProcessingState.SUCCESS); }
+          });
+          setProcessingState(ProcessingState.REVIEWING_CHANGES);
+          return;
+      }
+
       setProcessingState(ProcessingState.STRUCTURING_HEADLINES);
       setCurrentActivity('Step 1: Tagging Headlines...');
-      setActivityLog([]); setProgress(0); startTimer(); shouldStopRef.current = false;
-
-      const chunks = createChunksByCount(currentText, chunkSize);
-      let processedText = "";
-      addToLog(`> Split into ${chunks.length} chunks.`);
+      setActivityLog([]); setProgress(0); startTimer();
 
-      for(let i=0; i<chunks.length; i++) {
-           if (shouldStopRef.current) break;
-           setProgress(Math.round(((i+1)/chunks.length)*100));
-           const result = await processDocumentChunk({
+      const results = await runChunkedStep(
+          'step1',
+          () => createChunksByCount(currentText, chunkSize),
+          (chunks, i, signal) => processDocumentChunk({
                main_chunk_content: chunks[i],
                continuous_context_summary: "", previous_chunk_overlap: "", next_chunk_overlap: "",
-               task_instructions: getTaskInstructionsForStep1_Headlines(documentLanguage),
-               onApiCall: incrementApiCalls, mode: ProcessingMode.FAST, language: documentLanguage,
-               model: MODEL_FAST
-           });
-           processedText += result + "\n\n";
-      }
-
-      if (shouldStopRef.current) { handleStopProcessing(); return; }
-
-      const finalText = processedText.trim();
+               task_instructions: getTaskInstructionsForStep1_Headlines(documentLanguage) +
+                   (headlineHintMode === 'hints' ? getHeadlineHintsSection(formatHeadlineHints(headlineCandidates, chunks[i])) : ''),
+               onApiCall: incrementApiCalls, onLog: addToLog, mode: processingMode, language: documentLanguage,
+               step: 'step1', signal,
+               bypassCache, onCacheHit: incrementCacheHits,
+               onPartialText: (text) => showLiveOutput(text, `Chunk ${i + 1}/${chunks.length}`)
+          })
+      );
+      if (!results) return;
+
+      const finalText = results.join("\n\n").trim();
       stopTimer();
       setPendingChanges({
           oldText: currentText, newText: finalText, stepTitle: "Step 1: Headlines",
@@ -529,25 +926,38 @@ export default function App() {
   };
 
   const handleStartStep1_5 = async () => {
+      if (footnoteHintMode === 'direct' && footnoteMarks.length > 0) {
+          const { text: taggedText, references, notes } = applyFootnoteMarks(currentText, footnoteMarks);
+          addToLog(`> Step 1.5 from the PDF: ${references} references and ${notes} notes tagged without a model.`);
+          setPendingChanges({
+              oldText: currentText, newText: taggedText, stepTitle: "Step 1.5: Footnotes (from PDF)",
+              onAccept: () => { setTextAfterStep1_5(taggedText); updateText(taggedText); setPendingChanges(null); setProcessingState(ProcessingState.SUCCESS); }
+          });
+          setProcessingState(ProcessingState.REVIEWING_CHANGES);
+          return;
+      }
+
       setProcessingState(ProcessingState.STRUCTURING_FOOTNOTES);
       setCurrentActivity('Step 1.5: Tagging Footnotes...');
       setActivityLog([]); setProgress(0); startTimer();
 
-      const chunks = createChunks(currentText, 15000);
-      let processedText = "";
-
-      for(let i=0; i<chunks.length; i++) {
-           setProgress(Math.round(((i+1)/chunks.length)*100));
-           const result = await processDocumentChunk({
+      const results = await runChunkedStep(
+          'step1_5',
+          () => createChunks(currentText, Math.round(15000 * getProcessingPolicy(processingMode).chunkSizeFactor)),
+          (chunks, i, signal) => processDocumentChunk({
                main_chunk_content: chunks[i],
                continuous_context_summary: "", previous_chunk_overlap: "", next_chunk_overlap: "",
-               task_instructions: getTaskInstructionsForStep1_Footnotes(documentLanguage),
-               onApiCall: incrementApiCalls, mode: ProcessingMode.FAST, language: documentLanguage,
-               model: MODEL_FAST
-           });
-           processedText += result + "\n\n";
-      }
-      const finalText = processedText.trim();
+               task_instructions: getTaskInstructionsForStep1_Footnotes(documentLanguage) +
+                   (footnoteHintMode === 'hints' ? getFootnoteHintsSection(formatFootnoteHints(footnoteMarks, chunks[i])) : ''),
+               onApiCall: incrementApiCalls, onLog: addToLog, mode: processingMode, language: documentLanguage,
+               step: 'step1_5', signal,
+               bypassCache, onCacheHit: incrementCacheHits,
+               onPartialText: (text) => showLiveOutput(text, `Chunk ${i + 1}/${chunks.length}`)
+          })
+      );
+      if (!results) return;
+
+      const finalText = results.join("\n\n").trim();
       stopTimer();
       setPendingChanges({
           oldText: currentText, newText: finalText, stepTitle: "Step 1.5: Footnotes",
@@ -561,22 +971,22 @@ export default function App() {
       setCurrentActivity('Step 2: Structuring Content...');
       setActivityLog([]); setProgress(0); startTimer();
 
-      const chunks = createChunksByCount(currentText, chunkSize);
-      let processedText = "";
-      addToLog(`> Split into ${chunks.length} chunks.`);
-
-      for(let i=0; i<chunks.length; i++) {
-           setProgress(Math.round(((i+1)/chunks.length)*100));
-           const result = await processDocumentChunk({
+      const results = await runChunkedStep(
+          'step2',
+          () => createChunksByCount(currentText, chunkSize),
+          (chunks, i, signal) => processDocumentChunk({
                main_chunk_content: chunks[i],
                continuous_context_summary: "", previous_chunk_overlap: "", next_chunk_overlap: "",
                task_instructions: getTaskInstructionsForStep2_Content(documentLanguage),
-               onApiCall: incrementApiCalls, mode: ProcessingMode.FAST, language: documentLanguage,
-               model: MODEL_FAST
-           });
-           processedText += result + "\n\n";
-      }
-      const rawText = processedText.trim();
+               onApiCall: incrementApiCalls, onLog: addToLog, mode: processingMode, language: documentLanguage,
+               step: 'step2', signal,
+               bypassCache, onCacheHit: incrementCacheHits,
+               onPartialText: (text) => showLiveOutput(text, `Chunk ${i + 1}/${chunks.length}`)
+          })
+      );
+      if (!results) return;
+
+      const rawText = results.join("\n\n").trim();
       const finalText = validateStructuralIntegrity(rawText);
 
       stopTimer();
@@ -593,21 +1003,22 @@ export default function App() {
       setCurrentActivity('Step 3: Auditing Structure...');
       setActivityLog([]); setProgress(0); startTimer();
 
-      const chunks = getChunksForStep3(currentText);
-      let processedText = "";
-
-      for(let i=0; i<chunks.length; i++) {
-           setProgress(Math.round(((i+1)/chunks.length)*100));
-           const result = await processDocumentChunk({
+      const results = await runChunkedStep(
+          'step3',
+          () => getChunksForStep3(currentText, getProcessingPolicy(processingMode).chunkSizeFactor),
+          (chunks, i, signal) => processDocumentChunk({
                main_chunk_content: chunks[i],
                continuous_context_summary: "", previous_chunk_overlap: "", next_chunk_overlap: "",
                task_instructions: getTaskInstructionsForStep3_BatchFix(documentLanguage, referenceText.slice(0, 5000)),
-               onApiCall: incrementApiCalls, mode: ProcessingMode.QUALITY, language: documentLanguage,
-               model: MODEL_STRICT
-           });
-           processedText += result + "\n\n";
-      }
-      const finalText = processedText.trim();
+               onApiCall: incrementApiCalls, onLog: addToLog, mode: processingMode, language: documentLanguage,
+               step: 'step3', signal,
+               bypassCache, onCacheHit: incrementCacheHits,
+               onPartialText: (text) => showLiveOutput(text, `Chunk ${i + 1}/${chunks.length}`)
+          })
+      );
+      if (!results) return;
+
+      const finalText = results.join("\n\n").trim();
       stopTimer();
 
       const guarded = guardStep3ConservativeOutput(currentText, finalText);
@@ -623,30 +1034,63 @@ export default function App() {
   };
 
   const handleOcrConfirm = (texts: string[]) => {
-      const fullText = texts.join('\n\n--- PAGE BREAK ---\n\n');
+      // Hybrid PDFs: the reviewed OCR pages go back in place between the native-text pages.
+      const pages = hybridPlan ? [...hybridPlan.nativePages] : texts;
+      if (hybridPlan) ocrPages.forEach((page, i) => { pages[hybridPlan.pageNumbers.indexOf(page.pageNumber)] = texts[i]; });
+      const fullText = joinPagesWithAnchors(pages, hybridPlan ? hybridPlan.pageNumbers : ocrPages.map(p => p.pageNumber));
+      beginCleaningStage(fullText);
+  };
+
+  /** Extracted text enters the pipeline; running headers/footers are offered for removal first. */
+  const beginCleaningStage = (fullText: string) => {
       setInitialExtractedText(fullText);
       setCurrentText(fullText);
       updateText(fullText);
       setReferenceText(fullText);
+      const report = detectRunningHeadersFooters(fullText);
+      if (report.removed.length > 0) {
+          setHeaderFooterReport(report);
+          setProcessingState(ProcessingState.REVIEWING_HEADERS);
+      } else {
+          setProcessingState(ProcessingState.CONFIGURING_CLEANING);
+      }
+  };
+
+  const handleHeaderFooterConfirm = (linesToRemove: RemovedLine[]) => {
+      if (linesToRemove.length > 0) {
+          updateText(removeReportedLines(currentText, linesToRemove));
+          addToLog(`> Removed ${linesToRemove.length} running header/footer lines (${(headerFooterReport?.removed.length ?? 0) - linesToRemove.length} restored).`);
+      }
       setProcessingState(ProcessingState.CONFIGURING_CLEANING);
   };
 
   const handleJsonConfirm = async (json: string) => {
       setProcessingState(ProcessingState.TRANSFORMING_JSON);
       startTimer();
-      const text = await transformJsonToText(json, incrementApiCalls);
-      setInitialExtractedText(text);
-      updateText(text);
-      setProcessingState(ProcessingState.SUCCESS);
+      const signal = beginRun('jsonTransform');
+      try {
+          const text = await transformJsonToText(json, incrementApiCalls, addToLog, signal);
+          setInitialExtractedText(text);
+          updateText(text);
+          setProcessingState(ProcessingState.SUCCESS);
+      } catch (e) {
+          // Nothing awaits this handler, so a failure must end here rather than be rethrown.
+          if (!isAbortError(e)) {
+              console.error(e);
+              addToLog(`⛔ JSON transformation failed: ${(e as Error).message}`);
+              setProcessingState(ProcessingState.ERROR);
+          }
+      }
       stopTimer();
   };
 
   const handleComparisonFileSelect = async (file: File) => {
     setProcessingState(ProcessingState.EXTRACTING);
+    const signal = beginRun('comparison');
     try {
         let extracted = "";
         if (file.type === 'application/pdf') {
-            extracted = await extractTextWithOcr(file, incrementApiCalls, ProcessingMode.FAST, documentLanguage, setProgress);
+            extracted = await extractTextWithOcr(file, incrementApiCalls, processingMode, documentLanguage, setProgress, addToLog, signal);
         } else {
              extracted = await file.text();
         }
@@ -656,25 +1100,39 @@ export default function App() {
         updateText(txtFileContent);
         setProcessingState(ProcessingState.SUCCESS);
     } catch (e: any) {
+        if (isAbortError(e)) return;
         console.error(e);
         setProcessingState(ProcessingState.ERROR);
     }
   };
 
-  const handleTableLinearization = async (file: File) => {
+  const handleTableLinearization = async (file: File, pages?: number[], preprocessing?: ImagePreprocessing) => {
     setProcessingState(ProcessingState.TABLE_LINEARIZING);
+    const signal = beginRun('tableLinearization');
     try {
         startTimer();
-        const result = await linearizeTableFromPdf(file, incrementApiCalls, (p) => { setCurrentActivity(p.stage); setProgress(p.percentage); });
+        const result = await linearizeTableFromPdf(file, incrementApiCalls, (p) => { setCurrentActivity(p.stage); setProgress(p.percentage); }, addToLog, signal, pages, preprocessing);
         setCurrentText(result);
         setInitialExtractedText(result);
         updateText(result);
         setProcessingState(ProcessingState.SUCCESS);
     } catch (e: any) {
-        setProcessingState(ProcessingState.ERROR);
+        if (!isAbortError(e)) setProcessingState(ProcessingState.ERROR);
     } finally { stopTimer(); }
   };
 
+  const handleResumeRun = () => {
+      if (!partialRun) return;
+      const handlers: Record<ResumableStep, () => Promise<void>> = {
+          cleaning: handleStartCleaning,
+          step1: handleStartStep1,
+          step1_5: handleStartStep1_5,
+          step2: handleStartStep2,
+          step3: handleStartStep3,
+      };
+      handlers[partialRun.step]();
+  };
+
   const onRunSequence = async () => {
       if (selectedSteps.step1 && !textAfterStep1) await handleStartStep1();
       else if (selectedSteps.step1_5 && !textAfterStep1_5) await handleStartStep1_5();
@@ -719,16 +1177,20 @@ export default function App() {
                        <div>
                         <label className="block text-sm text-gray-400 mb-1">Processing Mode</label>
                         <div className="flex bg-gray-700 rounded p-1">
-                             <button onClick={()=>setProcessingMode(ProcessingMode.FAST)} className={`flex-1 py-1 rounded text-sm ${processingMode===ProcessingMode.FAST ? 'bg-teal-600':'text-gray-400'}`}>Speed (Flash)</button>
-                             <button onClick={()=>setProcessingMode(ProcessingMode.QUALITY)} className={`flex-1 py-1 rounded text-sm ${processingMode===ProcessingMode.QUALITY ? 'bg-indigo-600':'text-gray-400'}`}>Quality (Pro)</button>
+                             <button onClick={()=>handleProcessingModeChange(ProcessingMode.FAST)} className={`flex-1 py-1 rounded text-sm ${processingMode===ProcessingMode.FAST ? 'bg-teal-600':'text-gray-400'}`}>Speed (Flash)</button>
+                             <button onClick={()=>handleProcessingModeChange(ProcessingMode.QUALITY)} className={`flex-1 py-1 rounded text-sm ${processingMode===ProcessingMode.QUALITY ? 'bg-indigo-600':'text-gray-400'}`}>Quality (Pro)</button>
                         </div>
+                        {processingMode === ProcessingMode.QUALITY && (
+                            <p className="mt-1 text-xs text-yellow-400">Pro model for OCR and every chunk, plus a verification call per chunk: expect many times the cost of Speed mode.</p>
+                        )}
                       </div>
+                      {getProviderKind() === 'gemini' && <ApiKeySettings />}
                   </div>
                   <div className="border-l border-gray-700 pl-8 flex flex-col justify-center">
                       <FileUpload onFileSelect={handleFileSelect} disabled={false} />
                       <div className="mt-4 pt-4 border-t border-gray-700/50">
                         <label className="flex items-center space-x-2 text-gray-400 text-xs cursor-pointer hover:text-white transition-colors">
-                            <input type="file" ref={tableFileInputRef} className="hidden" accept="application/pdf" onChange={(e) => { const file = e.target.files?.[0]; if (file) handleTableLinearization(file); }} />
+                            <input type="file" ref={tableFileInputRef} className="hidden" accept="application/pdf" onChange={(e) => { const file = e.target.files?.[0]; if (file) handleTableFileSelect(file); }} />
                             <span className="p-2 bg-gray-700 rounded hover:bg-gray-600">📂 Specialized Table Processor (Beta)</span>
                         </label>
                      </div>
@@ -757,6 +1219,7 @@ export default function App() {
 
       {(processingState === ProcessingState.EXTRACTING || 
         processingState === ProcessingState.OCR || 
+        processingState === ProcessingState.PROCESSING_HYBRID_PDF ||
         processingState === ProcessingState.TRANSFORMING_JSON ||
         processingState === ProcessingState.CLEANING ||
         processingState === ProcessingState.STRUCTURING_HEADLINES ||
@@ -770,12 +1233,29 @@ export default function App() {
               currentActivity={currentActivity}
               activityLog={activityLog}
               title={processingState.replace(/_/g, " ")}
+              liveOutput={liveOutput}
               onStop={handleStopProcessing}
           />
       )}
 
+      {processingState === ProcessingState.SELECTING_PAGES && file && (
+          <PageSelector file={file} onConfirm={handlePageSelectionConfirm} onCancel={handleReset} />
+      )}
+
+      {processingState === ProcessingState.REVIEWING_LAYOUT && file && (
+          <LayoutReviewer file={file} pages={reviewableLayoutPages} onConfirm={handleLayoutConfirm} onCancel={handleReset} />
+      )}
+
+      {processingState === ProcessingState.REVIEWING_HEADERS && headerFooterReport && (
+          <HeaderFooterReviewer
+              report={headerFooterReport}
+              onConfirm={handleHeaderFooterConfirm}
+              onSkip={() => setProcessingState(ProcessingState.CONFIGURING_CLEANING)}
+          />
+      )}
+
       {processingState === ProcessingState.REVIEWING_OCR && (
-          <OcrReviewer pages={ocrPages} onConfirm={handleOcrConfirm} onCancel={handleReset} />
+          <OcrReviewer pages={ocrPages} totalPages={ocrTotalPages} documentPages={hybridPlan?.nativePages.length} language={documentLanguage} file={file ?? undefined} preprocessing={ocrPreprocessing} onReOcrPage={handleReOcrPage} onReplacePage={handleReplaceOcrPage} onResumeOcr={handleResumeOcr} onConfirm={handleOcrConfirm} onCancel={handleReset} />
       )}
 
       {processingState === ProcessingState.REVIEWING_JSON && (
@@ -812,7 +1292,7 @@ export default function App() {
                   setCurrentText(textBeforeStep3);
                   setProcessingState(ProcessingState.SUCCESS);
               }}
-              onChatRefine={(text, instr) => chatAboutRefinement(text, instr, referenceText, documentLanguage, incrementApiCalls)}
+              onChatRefine={(text, instr, useProModel, imageBase64, onPartialText) => { const signal = beginRun('refinement'); return chatAboutRefinement(text, instr, referenceText, documentLanguage, incrementApiCalls, useProModel, imageBase64, addToLog, signal, onPartialText); }}
           />
       )}
 
@@ -829,16 +1309,38 @@ export default function App() {
               }
               onCancel={() => setProcessingState(ProcessingState.SUCCESS)}
               max={Math.max(50, Math.ceil(currentText.length / 500))}
+              concurrency={concurrency}
+              onConcurrencyChange={(n) => { configureScheduler({ concurrency: n }); setConcurrency(n); }}
+              modelStep={
+                  processingState === ProcessingState.CONFIGURING_CLEANING ? 'cleaning' :
+                  processingState === ProcessingState.CONFIGURING_HEADLINES ? 'step1' :
+                  'step2'
+              }
               processingState={processingState}
+              structureHints={processingState === ProcessingState.CONFIGURING_HEADLINES && headlineCandidates.length > 0 ? {
+                  label: `Headlines from PDF fonts (${headlineCandidates.length} candidates)`,
+                  mode: headlineHintMode,
+                  onModeChange: setHeadlineHintMode,
+              } : undefined}
               documentLanguage={documentLanguage}
               onDocumentLanguageChange={setDocumentLanguage}
               supportedLanguages={SUPPORTED_LANGUAGES}
               isDetectingLanguage={isDetectingLanguage}
               onDetectLanguage={async () => {
                   setIsDetectingLanguage(true);
-                  const lang = await detectDocumentLanguage(currentText.slice(0,2000), SUPPORTED_LANGUAGES.map(l=>l.name), incrementApiCalls);
-                  if(lang) setDocumentLanguage(lang);
-                  setIsDetectingLanguage(false);
+                  const signal = beginRun('languageDetection');
+                  try {
+                      const lang = await detectDocumentLanguage(currentText.slice(0,2000), SUPPORTED_LANGUAGES.map(l=>l.name), incrementApiCalls, addToLog, signal);
+                      if(lang) setDocumentLanguage(lang);
+                  } catch (e) {
+                      // The language stays as it was; the configuration screen remains usable.
+                      if (!isAbortError(e)) {
+                          console.error(e);
+                          addToLog(`⛔ Language detection failed: ${(e as Error).message}`);
+                      }
+                  } finally {
+                      setIsDetectingLanguage(false);
+                  }
               }}
           />
       )}
@@ -849,8 +1351,8 @@ export default function App() {
               fileName={file?.name || "Document"}
               currentText={currentText}
               onTextChange={(val) => updateText(val, true)}
-              onDownload={() => {
-                  const blob = new Blob([currentText], {type: 'text/plain'});
+              onDownload={({ pageAnchors }) => {
+                  const blob = new Blob([pageAnchors ? currentText : stripPageAnchors(currentText)], {type: 'text/plain'});
                   const url = URL.createObjectURL(blob);
                   const a = document.createElement('a');
                   a.href = url;
@@ -865,6 +1367,11 @@ export default function App() {
               textAfterStep3={textAfterStep3}
               onConfigureHeadlines={() => setProcessingState(ProcessingState.CONFIGURING_HEADLINES)}
               onStartFootnotes={() => handleStartStep1_5()}
+              footnoteHints={footnoteMarks.length > 0 ? {
+                  label: `Footnotes from the PDF (${footnoteMarks.length} found)`,
+                  mode: footnoteHintMode,
+                  onModeChange: setFootnoteHintMode,
+              } : undefined}
               onConfigureContent={() => setProcessingState(ProcessingState.CONFIGURING_CONTENT)}
               onConfigureValidation={() => handleStartStep3()}
               onUndo={undo}
@@ -885,6 +1392,12 @@ export default function App() {
               }}
               onReset={handleReset}
               failedChunks={failedChunks}
+              resumableRun={partialRun && partialRun.sourceText === currentText ? {
+                  label: RESUMABLE_STEP_LABELS[partialRun.step],
+                  completed: countDone(partialRun.results),
+                  total: partialRun.chunks.length,
+              } : null}
+              onResumeRun={handleResumeRun}
               isEditMode={isEditMode}
               onToggleEditMode={() => setIsEditMode(!isEditMode)}
               onGoToLine={(line) => resultViewerRef.current?.goToLine(line)}
@@ -902,6 +1415,33 @@ export default function App() {
               fullSessionLog={activityLog}
               totalElapsedTime={elapsedTime}
               apiCallStats={apiCalls}
+              cacheStats={cacheStats}
+              onRefreshCacheStats={() => getResponseCacheStats().then(setCacheStats).catch(() => setCacheStats(null))}
+              onClearCache={async () => { await clearResponseCache(); setCacheStats(await getResponseCacheStats()); }}
+              bypassCache={bypassCache}
+              onBypassCacheChange={setBypassCache}
+              usage={usage}
+              processingModeLabel={describeProcessingPolicy(processingMode)}
+              onDownloadReport={() => {
+                  const report = buildSessionReport({
+                      fileName: file?.name || 'Document',
+                      documentLanguage,
+                      processingMode,
+                      elapsedSeconds: elapsedTime,
+                      apiCalls,
+                      usage,
+                      extractionStats,
+                      failedChunks,
+                      log: activityLog,
+                  });
+                  const blob = new Blob([report], {type: 'text/plain'});
+                  const url = URL.createObjectURL(blob);
+                  const a = document.createElement('a');
+                  a.href = url;
+                  a.download = `${file?.name || 'doc'}_report.txt`;
+                  a.click();
+              }}
+              onBudgetChange={setUsageBudget}
               extractionStats={extractionStats}
           />
       )}
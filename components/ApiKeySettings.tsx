@@ -0,0 +1,106 @@
+import React, { useEffect, useState } from 'react';
+import {
+    ApiKeyStorage,
+    ApiKeyStatus,
+    getApiKeyStatus,
+    subscribeApiKey,
+    setSessionApiKey,
+    saveEncryptedApiKey,
+    unlockEncryptedApiKey,
+    forgetApiKey,
+} from '../services/apiKeyStore';
+
+const inputClass = "w-full bg-gray-700 border border-gray-600 rounded p-2 text-sm";
+
+export const ApiKeySettings: React.FC = () => {
+    const [status, setStatus] = useState<ApiKeyStatus>(getApiKeyStatus);
+    const [keyInput, setKeyInput] = useState('');
+    const [storage, setStorage] = useState<ApiKeyStorage>('session');
+    const [passphrase, setPassphrase] = useState('');
+    const [message, setMessage] = useState('');
+    const [isBusy, setIsBusy] = useState(false);
+
+    useEffect(() => subscribeApiKey(() => setStatus(getApiKeyStatus())), []);
+
+    const handleSave = async () => {
+        if (!keyInput.trim()) return;
+        if (storage === 'encrypted') {
+            if (passphrase.length < 8) {
+                setMessage('Use a passphrase of at least 8 characters.');
+                return;
+            }
+            setIsBusy(true);
+            try {
+                await saveEncryptedApiKey(keyInput, passphrase);
+            } catch (e) {
+                // WebCrypto is missing on non-secure origins; storage can be full or blocked.
+                setMessage(`Could not save the key: ${(e as Error).message}`);
+                return;
+            } finally {
+                setIsBusy(false);
+            }
+        } else {
+            setSessionApiKey(keyInput);
+        }
+        setKeyInput('');
+        setPassphrase('');
+        setMessage('');
+    };
+
+    const handleUnlock = async () => {
+        setIsBusy(true);
+        try {
+            const ok = await unlockEncryptedApiKey(passphrase);
+            setMessage(ok ? '' : 'Wrong passphrase.');
+        } catch (e) {
+            setMessage(`Could not unlock the key: ${(e as Error).message}`);
+        } finally {
+            setIsBusy(false);
+            setPassphrase('');
+        }
+    };
+
+    const isLocked = !status.active && status.hasEncryptedKey;
+
+    return (
+        <div className="space-y-2">
+            <div className="flex justify-between items-center">
+                <label className="block text-sm text-gray-400">Gemini API Key</label>
+                <span className={`text-xs ${status.active ? 'text-emerald-400' : 'text-yellow-400'}`}>
+                    {status.active ? `Active (${status.source === 'encrypted' ? 'encrypted, unlocked' : 'this session'})` : isLocked ? 'Locked' : 'Not set'}
+                </span>
+            </div>
+
+            {isLocked ? (
+                <div className="flex space-x-2">
+                    <input type="password" value={passphrase} onChange={e => setPassphrase(e.target.value)} onKeyDown={e => e.key === 'Enter' && handleUnlock()} placeholder="Passphrase" className={inputClass} />
+                    <button onClick={handleUnlock} disabled={isBusy || !passphrase} className="px-3 py-1 bg-indigo-600 text-white text-sm rounded hover:bg-indigo-500 disabled:opacity-40">Unlock</button>
+                </div>
+            ) : !status.active && (
+                <>
+                    <input type="password" value={keyInput} onChange={e => setKeyInput(e.target.value)} placeholder="Paste your API key" autoComplete="off" className={inputClass} />
+                    <div className="flex space-x-4 text-xs text-gray-300">
+                        <label className="flex items-center space-x-1 cursor-pointer">
+                            <input type="radio" checked={storage === 'session'} onChange={() => setStorage('session')} />
+                            <span>This session only</span>
+                        </label>
+                        <label className="flex items-center space-x-1 cursor-pointer">
+                            <input type="radio" checked={storage === 'encrypted'} onChange={() => setStorage('encrypted')} />
+                            <span>Remember (encrypted)</span>
+                        </label>
+                    </div>
+                    {storage === 'encrypted' && (
+                        <input type="password" value={passphrase} onChange={e => setPassphrase(e.target.value)} placeholder="Passphrase to encrypt the key" className={inputClass} />
+                    )}
+                    <button onClick={handleSave} disabled={isBusy || !keyInput.trim()} className="w-full py-1.5 bg-teal-600 text-white text-sm rounded hover:bg-teal-500 disabled:opacity-40">Save Key</button>
+                </>
+            )}
+
+            {(status.active || status.hasEncryptedKey) && (
+                <button onClick={forgetApiKey} className="text-xs text-gray-500 hover:text-red-400 transition-colors">Forget key</button>
+            )}
+            {message && <p className="text-xs text-red-400">{message}</p>}
+            <p className="text-xs text-gray-500">The key stays in this browser and is sent only to the Gemini API.</p>
+        </div>
+    );
+};
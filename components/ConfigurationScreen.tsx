@@ -1,6 +1,8 @@
 import React from 'react';
 import { LoaderIcon, SparklesIcon } from './icons';
-import { ProcessingState } from '../types';
+import { ProcessingState, StructureHintMode } from '../types';
+import type { ModelStep } from '../services/modelRegistry';
+import { StepModelEditor } from './ModelRegistryPanel';
 
 interface ConfigurationScreenProps {
   value: number;
@@ -14,6 +16,10 @@ interface ConfigurationScreenProps {
   onDocumentLanguageChange?: (lang: string) => void;
   supportedLanguages?: { name: string }[];
   hideChunkSlider?: boolean;
+  concurrency?: number; // Chunks sent to the model at the same time
+  onConcurrencyChange?: (newValue: number) => void;
+  modelStep?: ModelStep; // Registry entry edited in the Model section
+  structureHints?: { label: string; mode: StructureHintMode; onModeChange: (mode: StructureHintMode) => void };
   processingState: ProcessingState; 
 }
 
@@ -29,6 +35,10 @@ export const ConfigurationScreen: React.FC<ConfigurationScreenProps> = ({
   onDocumentLanguageChange,
   supportedLanguages,
   hideChunkSlider = false,
+  concurrency,
+  onConcurrencyChange,
+  modelStep,
+  structureHints,
   processingState,
 }) => {
   const showLanguageSelector = documentLanguage && onDocumentLanguageChange && supportedLanguages && onDetectLanguage;
@@ -100,6 +110,45 @@ export const ConfigurationScreen: React.FC<ConfigurationScreenProps> = ({
           </div>
         )}
 
+        {concurrency !== undefined && onConcurrencyChange && (
+          <div className="w-full pt-4 space-y-2 border-t border-gray-700/50">
+              <label htmlFor="concurrency-select" className="block text-sm font-medium text-gray-300">Parallel Requests</label>
+              <select
+                  id="concurrency-select"
+                  value={concurrency}
+                  onChange={(e) => onConcurrencyChange(parseInt(e.target.value, 10))}
+                  className="bg-gray-700 border border-gray-600 text-white text-sm rounded-lg focus:ring-teal-500 focus:border-teal-500 block w-full p-2.5"
+              >
+                  {[1, 2, 4, 8, 16].map(n => <option key={n} value={n}>{n === 1 ? '1 (sequential)' : n}</option>)}
+              </select>
+              <p className="text-xs text-gray-500">Automatically reduced while the API reports rate limits (429).</p>
+          </div>
+        )}
+
+        {structureHints && (
+          <div className="w-full pt-4 space-y-2 border-t border-gray-700/50">
+              <label htmlFor="structure-hints-select" className="block text-sm font-medium text-gray-300">{structureHints.label}</label>
+              <select
+                  id="structure-hints-select"
+                  value={structureHints.mode}
+                  onChange={(e) => structureHints.onModeChange(e.target.value as StructureHintMode)}
+                  className="bg-gray-700 border border-gray-600 text-white text-sm rounded-lg focus:ring-teal-500 focus:border-teal-500 block w-full p-2.5"
+              >
+                  <option value="hints">Send as hints to the model</option>
+                  <option value="direct">Apply directly (no AI)</option>
+                  <option value="off">Ignore</option>
+              </select>
+          </div>
+        )}
+
+        {modelStep && (
+          <div className="w-full pt-4 space-y-2 border-t border-gray-700/50">
+              <span className="block text-sm font-medium text-gray-300">Model</span>
+              <StepModelEditor step={modelStep} />
+              <p className="text-xs text-gray-500">Saved for future runs. All steps can be edited in the Developer Prompt Panel.</p>
+          </div>
+        )}
+
         <div className="w-full flex items-center justify-between space-x-4 pt-6 border-t border-gray-700">
             <button
                 onClick={onCancel}
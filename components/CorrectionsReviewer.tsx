@@ -5,13 +5,20 @@ import { StructuredTextViewer, ViewerLineData } from './StructuredTextViewer';
 import { generateDiff } from '../services/diffService';
 import { ChatEntry } from '../types';
 
+// The chat model answers in JSON; pull the (possibly unterminated) "reply" field out of the partial stream.
+const getPartialReply = (rawJson: string): string => {
+    const match = rawJson.match(/"reply"\s*:\s*"((?:[^"\\]|\\.)*)/);
+    if (!match) return `Receiving response... (${rawJson.length} chars)`;
+    return match[1].replace(/\\n/g, '\n').replace(/\\"/g, '"').replace(/\\\\/g, '\\');
+};
+
 interface CorrectionsReviewerProps {
   originalText: string;   // Text BEFORE Step 3
   correctedText: string;  // Text AFTER Step 3 (Initial Result)
   onConfirm: (finalText: string) => void;
   onCancel: () => void;
   hasReference: boolean; // Does the user have a Reference PDF loaded?
-  onChatRefine: (currentText: string, instruction: string, useProModel: boolean, imageBase64?: string) => Promise<{ reply: string, refinedText?: string }>;
+  onChatRefine: (currentText: string, instruction: string, useProModel: boolean, imageBase64?: string, onPartialText?: (text: string) => void) => Promise<{ reply: string, refinedText?: string }>;
 }
 
 // Utility to synchronize lines for side-by-side view
@@ -90,6 +97,7 @@ export const CorrectionsReviewer: React.FC<CorrectionsReviewerProps> = ({
     const [chatHistory, setChatHistory] = useState<ChatEntry[]>([]);
     const [chatInput, setChatInput] = useState<string>('');
     const [isProcessing, setIsProcessing] = useState<boolean>(false);
+    const [streamingReply, setStreamingReply] = useState<string>(''); // Raw JSON streamed so far
     const [showChat, setShowChat] = useState<boolean>(true);
     
     // New Chat Options
@@ -183,7 +191,8 @@ export const CorrectionsReviewer: React.FC<CorrectionsReviewerProps> = ({
                 currentResult, 
                 userMsg, 
                 useProModel, 
-                imgToSend || undefined
+                imgToSend || undefined,
+                setStreamingReply
             );
             
             const aiEntry: ChatEntry = {
@@ -204,6 +213,7 @@ export const CorrectionsReviewer: React.FC<CorrectionsReviewerProps> = ({
             }]);
         } finally {
             setIsProcessing(false);
+            setStreamingReply('');
         }
     };
 
@@ -441,7 +451,10 @@ export const CorrectionsReviewer: React.FC<CorrectionsReviewerProps> = ({
                             ))}
                             {isProcessing && (
                                 <div className="flex items-start">
-                                     <div className="bg-gray-700 p-3 rounded-lg rounded-bl-none">
+                                     <div className="bg-gray-700 p-3 rounded-lg rounded-bl-none max-w-[90%]">
+                                        {streamingReply && (
+                                            <p className="text-sm text-gray-300 whitespace-pre-wrap mb-2">{getPartialReply(streamingReply)}</p>
+                                        )}
                                         <div className="flex space-x-1">
                                             <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce"></div>
                                             <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce delay-75"></div>
@@ -2,6 +2,7 @@
 import React, { useState, useCallback } from 'react';
 import {
     getOcrPromptForLanguage,
+    getOcrLineBoxRule,
     getTaskInstructionsForJsonTransform,
     getTaskInstructionsForLanguageDetection,
     getTaskInstructionsForTranslation,
@@ -13,6 +14,17 @@ import {
     getTaskInstructionsForStep3_BatchFix,
 } from '../services/promptRegistry';
 import { SUPPORTED_LANGUAGES } from '../constants';
+import {
+    LlmSessionMode,
+    getLlmSessionMode,
+    startRecording,
+    stopRecording,
+    startReplay,
+    stopReplay,
+    downloadRecording,
+} from '../services/llmSession';
+import { parseRecording } from '../services/providers/recordingProvider';
+import { ModelRegistryPanel } from './ModelRegistryPanel';
 
 
 const useCopyToClipboard = (): [(text: string) => void, string | null] => {
@@ -78,6 +90,84 @@ const PromptDisplay: React.FC<PromptDisplayProps> = ({ title, description, promp
 };
 
 
+const SessionRecordingPanel: React.FC = () => {
+    const [mode, setMode] = useState<LlmSessionMode>(getLlmSessionMode);
+    const [status, setStatus] = useState<string>('');
+    const [simulateLatency, setSimulateLatency] = useState(false);
+
+    const handleStartRecording = () => {
+        startRecording();
+        setMode(getLlmSessionMode());
+        setStatus('Recording every model call. Run the pipeline, then stop to download the file.');
+    };
+
+    const handleStopRecording = () => {
+        const recording = stopRecording();
+        setMode(getLlmSessionMode());
+        if (recording) {
+            downloadRecording(recording);
+            setStatus(`Saved ${recording.exchanges.length} exchanges.`);
+        }
+    };
+
+    const handleLoadReplay = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            const recording = parseRecording(await file.text());
+            startReplay(recording, { simulateLatency });
+            setMode(getLlmSessionMode());
+            setStatus(`Replaying ${recording.exchanges.length} exchanges from ${file.name} (recorded ${recording.createdAt}). No network calls will be made.`);
+        } catch (err: any) {
+            setStatus(`Could not load recording: ${err.message}`);
+        }
+    };
+
+    const handleStopReplay = () => {
+        stopReplay();
+        setMode(getLlmSessionMode());
+        setStatus('Back to live model calls.');
+    };
+
+    return (
+        <div className="mb-8 p-6 bg-gray-900/50 rounded-lg border border-gray-700">
+            <h3 className="text-xl font-bold text-teal-300">Session Recording</h3>
+            <p className="mt-1 text-sm text-gray-400">
+                Capture every request and response (prompt, model, config, response, timing) to a file, or replay a recording offline as a regression fixture. Attach recordings to bug reports.
+            </p>
+            <div className="mt-4 flex flex-wrap items-center gap-3">
+                {mode === 'recording' ? (
+                    <button onClick={handleStopRecording} className="px-4 py-2 bg-red-600 text-white font-bold rounded-md hover:bg-red-500 transition-colors">
+                        Stop &amp; Download Recording
+                    </button>
+                ) : (
+                    <button onClick={handleStartRecording} disabled={mode === 'replay'} className="px-4 py-2 bg-teal-600 text-white font-bold rounded-md hover:bg-teal-500 transition-colors disabled:opacity-40 disabled:cursor-not-allowed">
+                        Start Recording
+                    </button>
+                )}
+                {mode === 'replay' ? (
+                    <button onClick={handleStopReplay} className="px-4 py-2 bg-red-600 text-white font-bold rounded-md hover:bg-red-500 transition-colors">
+                        Stop Replay
+                    </button>
+                ) : (
+                    <label className={`px-4 py-2 bg-indigo-600 text-white font-bold rounded-md transition-colors ${mode === 'recording' ? 'opacity-40 cursor-not-allowed' : 'hover:bg-indigo-500 cursor-pointer'}`}>
+                        Load Recording for Replay
+                        <input type="file" accept="application/json,.json" className="hidden" disabled={mode === 'recording'} onChange={handleLoadReplay} />
+                    </label>
+                )}
+                <label className="flex items-center space-x-2 text-sm text-gray-300">
+                    <input type="checkbox" checked={simulateLatency} onChange={e => setSimulateLatency(e.target.checked)} disabled={mode !== 'live'} className="w-4 h-4 rounded bg-gray-700 border-gray-600 text-teal-500 focus:ring-teal-600"/>
+                    <span>Replay with recorded latency</span>
+                </label>
+            </div>
+            <p className="mt-3 text-sm font-mono text-gray-400">
+                Mode: <span className={mode === 'live' ? 'text-gray-300' : 'text-yellow-300'}>{mode}</span>{status && <> — {status}</>}
+            </p>
+        </div>
+    );
+};
+
 interface DevToolsScreenProps {
   onClose: () => void;
   supportedLanguages?: { name: string }[]; 
@@ -106,9 +196,9 @@ export const DevToolsScreen: React.FC<DevToolsScreenProps> = ({ onClose }) => {
             description: "To process large documents efficiently, text is 'chunked' with optimized strategies per step, and the Gemini model (Flash or Pro) is dynamically selected.",
             text: `AI has a token limit. To bypass this, the document is split using an adaptive strategy for each step, aiming to minimize API calls and costs while maintaining high quality.
 
-**Model Selection Policy (Updated v4.5)**
-*   **gemini-flash-lite-latest (MODEL_FAST):** Used for OCR, Step 1A (Headlines), and Step 1B (Footnotes). Ideal for speed.
-*   **gemini-3-pro-preview (MODEL_STRICT):** The smartest available model. Mandatory for Text Cleaning and Step 3 (Correction).
+**Model Selection Policy (Defaults, editable in the Model Registry panel above)**
+*   **gemini-flash-lite-latest (MODEL_FAST):** Used for OCR, Step 1A (Headlines), Step 1B (Footnotes) and Step 2 (Content). Ideal for speed.
+*   **gemini-3-pro-preview (MODEL_STRICT):** The smartest available model. Default for Text Cleaning and Step 3 (Correction).
 
 **Chunking Strategies per Step**
 
@@ -125,7 +215,7 @@ export const DevToolsScreen: React.FC<DevToolsScreenProps> = ({ onClose }) => {
 *   **Strategy:** Sparse Batching. The code scans text for footnote candidates. Only those pages are sent to AI, drastically saving tokens.
 
 **Step 2 (Content Structuring)**
-*   **Model:** Hybrid. Flash by default, scales to Pro if the chunk is massive (>120k chars).
+*   **Model:** gemini-flash-lite-latest.
 *   **Strategy:** Section Grouping (Level 1). The system attempts to send entire chapters at once to maintain semantic coherence.
 
 **Step 3 (Structure Correction)**
@@ -137,6 +227,11 @@ export const DevToolsScreen: React.FC<DevToolsScreenProps> = ({ onClose }) => {
             description: "Used to extract text from each PDF page when normal text is undetectable. Returns verbatim text, ignoring layouts.",
             text: getOcrPromptForLanguage(langPlaceholder)
         },
+        {
+            title: "OCR Line Box Rule",
+            description: "Appended to the OCR prompt for pages that go to the OCR review, and for Re-OCR. The boxes link each line to its region on the page image.",
+            text: getOcrLineBoxRule()
+        },
         {
             title: "JSON Transformation Prompt",
             description: "Used when a JSON file is loaded. Converts JSON structure into a hierarchical, readable text document.",
@@ -211,6 +306,9 @@ export const DevToolsScreen: React.FC<DevToolsScreenProps> = ({ onClose }) => {
                 </header>
                 
                 <main className="p-6 flex-grow overflow-auto">
+                    <SessionRecordingPanel />
+                    <ModelRegistryPanel />
+
                     {prompts.map(p => (
                         <PromptDisplay key={p.title} title={p.title} description={p.description} promptText={p.text} />
                     ))}
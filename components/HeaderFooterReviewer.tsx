@@ -0,0 +1,85 @@
+import React, { useMemo, useState } from 'react';
+import { ShieldCheckIcon } from './icons';
+import { HeaderFooterReport, RemovedLine, groupRemovedLines } from '../services/processors/runningHeaders';
+
+interface HeaderFooterReviewerProps {
+  report: HeaderFooterReport;
+  onConfirm: (linesToRemove: RemovedLine[]) => void;
+  onSkip: () => void; // Keep every line
+}
+
+export const HeaderFooterReviewer: React.FC<HeaderFooterReviewerProps> = ({ report, onConfirm, onSkip }) => {
+  const groups = useMemo(() => groupRemovedLines(report.removed), [report]);
+  const [restored, setRestored] = useState<Set<string>>(new Set());
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const toggle = (ids: string[], restore: boolean) => {
+    setRestored(prev => {
+      const next = new Set(prev);
+      ids.forEach(id => (restore ? next.add(id) : next.delete(id)));
+      return next;
+    });
+  };
+
+  const removeCount = report.removed.length - restored.size;
+
+  return (
+    <div className="w-full max-w-4xl h-[85vh] bg-gray-800 rounded-xl shadow-2xl flex flex-col animate-fade-in">
+      <header className="p-4 border-b border-gray-700 flex-shrink-0">
+        <h2 className="text-lg font-bold text-white">Running Headers &amp; Footers</h2>
+        <p className="text-sm text-gray-400">
+          {report.removed.length} repeated lines found at the top or bottom of {report.pageCount} pages. Untick anything that is real text to keep it.
+        </p>
+      </header>
+
+      <main className="flex-grow overflow-y-auto p-4 space-y-2">
+        {groups.map(group => {
+          const key = `${group.position}|${group.pattern}`;
+          const ids = group.lines.map(l => l.id);
+          const removedInGroup = ids.filter(id => !restored.has(id)).length;
+          return (
+            <div key={key} className="bg-gray-900 rounded-lg border border-gray-700">
+              <div className="flex items-center p-3 space-x-3">
+                <input
+                  type="checkbox"
+                  checked={removedInGroup > 0}
+                  ref={el => { if (el) el.indeterminate = removedInGroup > 0 && removedInGroup < ids.length; }}
+                  onChange={e => toggle(ids, !e.target.checked)}
+                />
+                <span className="text-xs uppercase text-gray-500 w-14">{group.position}</span>
+                <span className="flex-grow font-mono text-sm text-gray-200 truncate">{group.lines[0].text}</span>
+                <button onClick={() => setExpanded(expanded === key ? null : key)} className="text-xs text-teal-400 hover:text-teal-300">
+                  {removedInGroup}/{ids.length} pages
+                </button>
+              </div>
+              {expanded === key && (
+                <ul className="border-t border-gray-700 px-3 py-2 space-y-1 max-h-60 overflow-y-auto">
+                  {group.lines.map(line => (
+                    <li key={line.id} className="flex items-center space-x-3 text-sm">
+                      <input type="checkbox" checked={!restored.has(line.id)} onChange={e => toggle([line.id], !e.target.checked)} />
+                      <span className="text-gray-500 w-16">Page {line.pageNumber ?? line.pageIndex + 1}</span>
+                      <span className="font-mono text-gray-300 truncate">{line.text}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          );
+        })}
+      </main>
+
+      <footer className="p-4 border-t border-gray-700 flex justify-between items-center flex-shrink-0">
+        <button onClick={onSkip} className="px-4 py-2 bg-gray-600 text-white font-bold rounded-md hover:bg-gray-500 transition-colors">
+          Keep All Lines
+        </button>
+        <button
+          onClick={() => onConfirm(report.removed.filter(line => !restored.has(line.id)))}
+          className="px-6 py-2 bg-teal-600 text-white font-bold rounded-md hover:bg-teal-500 transition-colors flex items-center"
+        >
+          <ShieldCheckIcon className="w-5 h-5 mr-2" />
+          Remove {removeCount} Lines
+        </button>
+      </footer>
+    </div>
+  );
+};
@@ -0,0 +1,108 @@
+import React, { useRef, useState } from 'react';
+import type { PDFDocumentProxy } from 'pdfjs-dist/types/src/display/api';
+import { LoaderIcon, ShieldCheckIcon } from './icons';
+import { ColumnLayout, NativePage } from '../types';
+import { extractNativePage, loadPdfDocument } from '../services/pdfExtractor';
+
+interface LayoutReviewerProps {
+  file: File;
+  pages: NativePage[]; // Native-text pages; multi-column ones are listed first
+  onConfirm: (pages: NativePage[]) => void;
+  onCancel: () => void;
+}
+
+const LAYOUT_OPTIONS: { value: ColumnLayout; label: string }[] = [
+  { value: 'auto', label: 'Auto (detect)' },
+  { value: 1, label: 'Single column' },
+  { value: 2, label: '2 columns' },
+  { value: 3, label: '3 columns' },
+];
+
+export const LayoutReviewer: React.FC<LayoutReviewerProps> = ({ file, pages: initialPages, onConfirm, onCancel }) => {
+  const [pages, setPages] = useState<NativePage[]>(() =>
+    [...initialPages].sort((a, b) => Number(b.columnCount > 1) - Number(a.columnCount > 1) || a.pageNumber - b.pageNumber)
+  );
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [isBusy, setIsBusy] = useState(false);
+  const pdfDocumentRef = useRef<PDFDocumentProxy | null>(null);
+
+  const currentPage = pages[currentIndex];
+  const multiColumnCount = pages.filter(p => p.columnCount > 1).length;
+
+  const handleLayoutChange = async (layout: ColumnLayout) => {
+    setIsBusy(true);
+    try {
+      pdfDocumentRef.current ??= await loadPdfDocument(file);
+      const updated = await extractNativePage(pdfDocumentRef.current, currentPage.pageNumber, { columns: layout });
+      setPages(prev => prev.map(p => (p.pageNumber === updated.pageNumber ? updated : p)));
+    } catch (e) {
+      console.error('Could not re-extract page', e);
+    }
+    setIsBusy(false);
+  };
+
+  return (
+    <div className="w-full max-w-[95vw] h-[90vh] bg-gray-800 rounded-xl shadow-2xl flex flex-col animate-fade-in border border-gray-700">
+      <header className="p-4 border-b border-gray-700 flex-shrink-0">
+        <h2 className="text-lg font-bold text-white">Review Reading Order</h2>
+        <p className="text-sm text-gray-400">
+          {multiColumnCount} of {pages.length} pages were read as multiple columns. Check the text order and change the layout of a page if it was misjudged.
+        </p>
+      </header>
+
+      <main className="flex-grow flex overflow-hidden">
+        <nav className="w-48 flex-shrink-0 border-r border-gray-700 overflow-y-auto p-2 space-y-1">
+          {pages.map((page, index) => (
+            <button
+              key={page.pageNumber}
+              onClick={() => setCurrentIndex(index)}
+              className={`w-full flex justify-between items-center px-3 py-1.5 rounded text-sm transition-colors ${index === currentIndex ? 'bg-gray-600 text-white' : 'text-gray-300 hover:bg-gray-700'}`}
+            >
+              <span>Page {page.pageNumber}</span>
+              <span className={`text-xs ${page.columnCount > 1 ? 'text-teal-400' : 'text-gray-500'}`}>
+                {page.columnCount} col{page.layout !== 'auto' ? ' *' : ''}
+              </span>
+            </button>
+          ))}
+        </nav>
+
+        <section className="flex-grow flex flex-col overflow-hidden p-4 space-y-3">
+          <div className="flex items-center space-x-3">
+            <label className="text-sm text-gray-400">Layout of page {currentPage.pageNumber}</label>
+            <select
+              value={String(currentPage.layout)}
+              onChange={e => handleLayoutChange(e.target.value === 'auto' ? 'auto' : Number(e.target.value))}
+              disabled={isBusy}
+              className="bg-gray-700 border border-gray-600 rounded p-1.5 text-sm text-white"
+            >
+              {LAYOUT_OPTIONS.map(option => (
+                <option key={String(option.value)} value={String(option.value)}>{option.label}</option>
+              ))}
+            </select>
+            {isBusy && <LoaderIcon className="w-4 h-4 text-teal-400" />}
+          </div>
+          <pre className="flex-grow overflow-auto p-4 bg-gray-900 rounded-lg border border-gray-700 text-gray-300 font-mono text-sm whitespace-pre-wrap" dir="auto">
+            {currentPage.text}
+          </pre>
+        </section>
+      </main>
+
+      <footer className="p-4 border-t border-gray-700 flex justify-between items-center flex-shrink-0">
+        <button
+          onClick={onCancel}
+          className="px-4 py-2 bg-red-600/90 text-white font-bold rounded-md hover:bg-red-500 transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={() => onConfirm(pages)}
+          disabled={isBusy}
+          className="px-6 py-2 bg-teal-600 text-white font-bold rounded-md hover:bg-teal-500 transition-colors flex items-center disabled:opacity-40"
+        >
+          <ShieldCheckIcon className="w-5 h-5 mr-2" />
+          Continue
+        </button>
+      </footer>
+    </div>
+  );
+};
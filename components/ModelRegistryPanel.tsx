@@ -0,0 +1,152 @@
+import React, { useState } from 'react';
+import {
+    ModelStep,
+    StepModelConfig,
+    MODEL_STEP_LABELS,
+    getKnownModels,
+    getModelRegistry,
+    getStepModelConfig,
+    isStepModelPinned,
+    setStepModelConfig,
+    resetModelRegistry,
+} from '../services/modelRegistry';
+import { MODE_CONTROLLED_STEPS } from '../services/processingPolicy';
+
+const inputClass = "bg-gray-700 border border-gray-600 text-white text-sm rounded-md focus:ring-teal-500 focus:border-teal-500 p-1.5";
+
+// Empty input clears an optional setting (the provider default applies).
+const parseOptional = (value: string): number | undefined => {
+    if (value.trim() === '') return undefined;
+    const n = Number(value);
+    return Number.isFinite(n) ? n : undefined;
+};
+
+interface StepModelFieldsProps {
+    step: ModelStep;
+    config: StepModelConfig;
+    onChange: (config: StepModelConfig) => void;
+}
+
+/** One step's model, sampling, output limit and timeout inputs. */
+const StepModelFields: React.FC<StepModelFieldsProps> = ({ step, config, onChange }) => {
+    const listId = `known-models-${step}`;
+    const numberField = (key: 'temperature' | 'topK' | 'topP' | 'maxOutputTokens', label: string, increment: string) => (
+        <label className="flex flex-col text-xs text-gray-400">
+            {label}
+            <input
+                type="number"
+                step={increment}
+                min="0"
+                value={config[key] ?? ''}
+                placeholder="default"
+                onChange={e => onChange({ ...config, [key]: parseOptional(e.target.value) })}
+                className={`${inputClass} w-24`}
+            />
+        </label>
+    );
+
+    return (
+        <div className="flex flex-wrap items-end gap-2">
+            <label className="flex flex-col text-xs text-gray-400 flex-grow min-w-[12rem]">
+                Model
+                {/* Model and timeout commit on blur so the field can be cleared while typing. */}
+                <input
+                    key={config.model}
+                    list={listId}
+                    defaultValue={config.model}
+                    onBlur={e => {
+                        const model = e.target.value.trim();
+                        if (!model) e.target.value = config.model;
+                        // Picking a model, even the default one, keeps it in every mode.
+                        else if (model !== config.model) onChange({ ...config, model, pinned: true });
+                    }}
+                    className={`${inputClass} font-mono`}
+                />
+                <datalist id={listId}>
+                    {getKnownModels().map(m => <option key={m} value={m} />)}
+                </datalist>
+            </label>
+            {numberField('temperature', 'Temperature', '0.1')}
+            {numberField('topK', 'Top K', '1')}
+            {numberField('topP', 'Top P', '0.05')}
+            {numberField('maxOutputTokens', 'Max Output', '1024')}
+            <label className="flex flex-col text-xs text-gray-400">
+                Timeout (s)
+                <input
+                    key={config.timeoutMs}
+                    type="number"
+                    min="5"
+                    defaultValue={Math.round(config.timeoutMs / 1000)}
+                    onBlur={e => {
+                        const seconds = parseOptional(e.target.value);
+                        if (seconds && seconds > 0) onChange({ ...config, timeoutMs: seconds * 1000 });
+                        else e.target.value = String(Math.round(config.timeoutMs / 1000));
+                    }}
+                    className={`${inputClass} w-20`}
+                />
+            </label>
+            {MODE_CONTROLLED_STEPS.includes(step) && (
+                <label className="flex items-center text-xs text-gray-400 pb-2" title="When off, Fast and Quality mode choose the model for this step.">
+                    <input
+                        type="checkbox"
+                        checked={isStepModelPinned(step, config)}
+                        onChange={e => onChange({ ...config, pinned: e.target.checked })}
+                        className="w-4 h-4 mr-1.5 rounded bg-gray-700 border-gray-600 text-teal-500 focus:ring-teal-600"
+                    />
+                    Use in every mode
+                </label>
+            )}
+        </div>
+    );
+};
+
+/** Model settings for a single step, for the step's configuration screen. */
+export const StepModelEditor: React.FC<{ step: ModelStep }> = ({ step }) => {
+    const [config, setConfig] = useState<StepModelConfig>(() => getStepModelConfig(step));
+
+    const handleChange = (next: StepModelConfig) => {
+        setStepModelConfig(step, next);
+        setConfig(next);
+    };
+
+    return <StepModelFields step={step} config={config} onChange={handleChange} />;
+};
+
+/** Every step's model settings, for the developer panel. Changes are saved immediately. */
+export const ModelRegistryPanel: React.FC = () => {
+    const [registry, setRegistry] = useState(getModelRegistry);
+
+    const handleChange = (step: ModelStep, config: StepModelConfig) => {
+        setStepModelConfig(step, config);
+        setRegistry(getModelRegistry());
+    };
+
+    const handleReset = () => {
+        resetModelRegistry();
+        setRegistry(getModelRegistry());
+    };
+
+    return (
+        <div className="mb-8 p-6 bg-gray-900/50 rounded-lg border border-gray-700">
+            <div className="flex justify-between items-start">
+                <div>
+                    <h3 className="text-xl font-bold text-teal-300">Model Registry</h3>
+                    <p className="mt-1 text-sm text-gray-400">
+                        Model and generation settings per step. Saved in this browser and used by the next call. Empty fields use the provider default.
+                    </p>
+                </div>
+                <button onClick={handleReset} className="px-3 py-1 text-xs bg-gray-700 text-gray-300 rounded-md hover:bg-gray-600 hover:text-white transition-colors flex-shrink-0">
+                    Reset Defaults
+                </button>
+            </div>
+            <div className="mt-4 space-y-4">
+                {(Object.keys(MODEL_STEP_LABELS) as ModelStep[]).map(step => (
+                    <div key={step} className="pt-3 border-t border-gray-700/50">
+                        <h4 className="text-sm font-semibold text-gray-200 mb-2">{MODEL_STEP_LABELS[step]}</h4>
+                        <StepModelFields step={step} config={registry[step]} onChange={(config) => handleChange(step, config)} />
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
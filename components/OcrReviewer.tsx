@@ -1,20 +1,141 @@
 
 
-import React, { useState } from 'react';
-import { ArrowLeftIcon, ArrowRightIcon, ShieldCheckIcon, ZoomInIcon, ZoomOutIcon, QueueListIcon, DocumentIcon, UndoIcon } from './icons';
-import { OcrPage } from '../types';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import type { PDFDocumentProxy } from 'pdfjs-dist/types/src/display/api';
+import { ArrowLeftIcon, ArrowRightIcon, ShieldCheckIcon, ZoomInIcon, ZoomOutIcon, QueueListIcon, DocumentIcon, UndoIcon, LoaderIcon } from './icons';
+import { ImagePreprocessing, OcrLineBox, OcrPage, OcrQuality, ReOcrOptions } from '../types';
+import { ReOcrPanel } from './ReOcrPanel';
+import { loadPdfDocument } from '../services/pdfExtractor';
+import { hasPreprocessing } from '../services/preprocessingPresets';
+import { measureInkDensity, renderPageToJpegBase64 } from '../services/processors/imageUtils';
+import { LOW_CONFIDENCE_SCORE, scoreOcrPages } from '../services/processors/ocrQuality';
+import { lineAtPoint, remapLineBoxes } from '../services/processors/ocrLineBoxes';
 
 interface OcrReviewerProps {
   pages: OcrPage[];
+  totalPages?: number; // Pages to OCR; more than pages.length means OCR was stopped early
+  documentPages?: number; // Pages in the whole PDF, when only some of them needed OCR
+  onResumeOcr?: (editedTexts: string[]) => void;
   onConfirm: (editedTexts: string[]) => void;
   onCancel: () => void;
+  language?: string; // Document language, for the common-word signal of the quality score
+  file?: File; // Source PDF, to render pages without preprocessing for the before/after preview
+  preprocessing?: ImagePreprocessing; // Preprocessing the page images went through
+  onReOcrPage?: (pageNumber: number, options: ReOcrOptions, signal: AbortSignal) => Promise<OcrPage>;
+  onReplacePage?: (index: number, page: OcrPage) => void; // An accepted re-OCR result
 }
 
-export const OcrReviewer: React.FC<OcrReviewerProps> = ({ pages, onConfirm, onCancel }) => {
+const scoreColor = (score: number) =>
+  score >= 80 ? 'text-green-400 border-green-700' : score >= LOW_CONFIDENCE_SCORE ? 'text-yellow-400 border-yellow-700' : 'text-red-400 border-red-700';
+
+const QualityBadge: React.FC<{ quality: OcrQuality }> = ({ quality }) => (
+  <span
+    className={`px-1.5 py-0.5 text-xs font-mono rounded border ${scoreColor(quality.score)}`}
+    title={quality.reasons.length ? quality.reasons.join('; ') : 'No problems found'}
+  >
+    {quality.score}
+  </span>
+);
+
+export const OcrReviewer: React.FC<OcrReviewerProps> = ({ pages, totalPages, documentPages, onConfirm, onCancel, onResumeOcr, language = 'English', file, preprocessing, onReOcrPage, onReplacePage }) => {
   const [currentPageIndex, setCurrentPageIndex] = useState(0);
   const [pageTexts, setPageTexts] = useState<string[]>(() => pages.map(p => p.ocrText));
   const [zoomLevel, setZoomLevel] = useState(1);
   const [viewMode, setViewMode] = useState<'paged' | 'list'>('paged');
+  const [inkDensities, setInkDensities] = useState<(number | null)[]>(() => pages.map(() => null));
+  const [sortBy, setSortBy] = useState<'page' | 'score'>('page');
+  const [lowOnly, setLowOnly] = useState(false);
+  // Scores the page order was last ranked by; refreshed on demand so pages don't jump around while you type.
+  const [rankedScores, setRankedScores] = useState<number[]>([]);
+  const [rankRequest, setRankRequest] = useState(0); // Bumped to re-rank with the current scores
+  const [activeLine, setActiveLine] = useState<number | null>(null); // Line of the current page at the text cursor
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  // Before/after preview: the page rendered without preprocessing, by page number
+  const [showOriginal, setShowOriginal] = useState(false);
+  const [originalImages, setOriginalImages] = useState<Record<number, string>>({});
+  const pdfDocumentRef = useRef<Promise<PDFDocumentProxy> | null>(null);
+  const canCompare = !!file && !!preprocessing && hasPreprocessing(preprocessing);
+  const [reOcrIndex, setReOcrIndex] = useState<number | null>(null); // Page whose Re-OCR panel is open
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      const densities: (number | null)[] = [];
+      for (const page of pages) {
+        if (cancelled) return;
+        densities.push(page.imageBase64 ? await measureInkDensity(page.imageBase64) : null);
+      }
+      if (!cancelled) setInkDensities(densities);
+    })();
+    return () => { cancelled = true; };
+  }, [pages]);
+
+  const qualities: OcrQuality[] = useMemo(() => scoreOcrPages(pageTexts, inkDensities, language), [pageTexts, inkDensities, language]);
+  const lowCount = qualities.filter(q => q.score < LOW_CONFIDENCE_SCORE).length;
+
+  useEffect(() => {
+    setRankedScores(qualities.map(q => q.score));
+    // Re-rank only when the ordering changes, the ink measurements arrive or a page is replaced, not on every edit.
+  }, [sortBy, lowOnly, inkDensities, rankRequest]);
+
+  // Page indices in display order, after the score filter.
+  const order: number[] = useMemo(() => {
+    const scores = rankedScores.length === pages.length ? rankedScores : qualities.map(q => q.score);
+    const indices = pages.map((_, i) => i).filter(i => !lowOnly || scores[i] < LOW_CONFIDENCE_SCORE);
+    return sortBy === 'score' ? indices.sort((a, b) => scores[a] - scores[b] || a - b) : indices;
+  }, [rankedScores, pages, lowOnly, sortBy]);
+  const orderPosition = order.indexOf(currentPageIndex);
+
+  // Boxes of the current page, following the reviewer's edits to its text.
+  const currentLineBoxes: OcrLineBox[] = useMemo(() => {
+    const page = pages[currentPageIndex];
+    return remapLineBoxes(page.lineBoxes ?? [], page.ocrText, pageTexts[currentPageIndex]);
+  }, [pages, currentPageIndex, pageTexts]);
+  const activeBox = currentLineBoxes.find(box => box.line === activeLine);
+
+  useEffect(() => setActiveLine(null), [currentPageIndex]);
+
+  useEffect(() => {
+    const pageNumber = pages[currentPageIndex].pageNumber;
+    if (!showOriginal || !file || originalImages[pageNumber]) return;
+    let cancelled = false;
+    (async () => {
+      try {
+        if (!pdfDocumentRef.current) pdfDocumentRef.current = loadPdfDocument(file);
+        const page = await (await pdfDocumentRef.current).getPage(pageNumber);
+        let image: string | null;
+        try {
+          image = await renderPageToJpegBase64(page);
+        } finally {
+          page.cleanup();
+        }
+        if (image && !cancelled) setOriginalImages(prev => ({ ...prev, [pageNumber]: image }));
+      } catch (e) {
+        console.warn(`Could not render page ${pageNumber} for comparison`, e);
+      }
+    })();
+    return () => { cancelled = true; };
+  }, [showOriginal, currentPageIndex, file]);
+
+  useEffect(() => () => { pdfDocumentRef.current?.then(doc => doc.destroy()); }, []);
+
+  const handleCursorMove = (textarea: HTMLTextAreaElement) => {
+    setActiveLine(textarea.value.slice(0, textarea.selectionStart).split('\n').length - 1);
+  };
+
+  // Selects the line under the click in the text editor and scrolls it into view.
+  const handleImageClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const line = lineAtPoint(currentLineBoxes, (e.clientX - rect.left) / rect.width, (e.clientY - rect.top) / rect.height);
+    const textarea = textareaRef.current;
+    if (line === null || !textarea) return;
+    const lines = pageTexts[currentPageIndex].split('\n');
+    const start = lines.slice(0, line).reduce((acc, l) => acc + l.length + 1, 0);
+    textarea.focus();
+    textarea.setSelectionRange(start, start + lines[line].length);
+    textarea.scrollTop = Math.max(0, (line / lines.length) * textarea.scrollHeight - textarea.clientHeight / 2);
+    setActiveLine(line);
+  };
 
   const handleTextChange = (index: number, newText: string) => {
     const newTexts = [...pageTexts];
@@ -23,69 +144,152 @@ export const OcrReviewer: React.FC<OcrReviewerProps> = ({ pages, onConfirm, onCa
   };
 
   const goToPrevious = () => {
-    setCurrentPageIndex(prev => Math.max(0, prev - 1));
+    if (orderPosition > 0) setCurrentPageIndex(order[orderPosition - 1]);
   };
 
   const goToNext = () => {
-    setCurrentPageIndex(prev => Math.min(pages.length - 1, prev + 1));
+    if (orderPosition < order.length - 1) setCurrentPageIndex(order[orderPosition + 1]);
+  };
+
+  const handleAcceptReOcr = (index: number, page: OcrPage) => {
+    handleTextChange(index, page.ocrText);
+    onReplacePage?.(index, page);
+    setRankRequest(n => n + 1);
+    setReOcrIndex(null);
+  };
+
+  const goToWorstPage = () => {
+    const worst = qualities.reduce((best, q, i) => (q.score < qualities[best].score ? i : best), 0);
+    setCurrentPageIndex(worst);
+    setViewMode('paged');
   };
 
   const handleConfirm = () => {
     onConfirm(pageTexts);
   };
   
+  const isPartial = !!totalPages && pages.length < totalPages;
+  const nativePageCount = documentPages && totalPages ? documentPages - totalPages : 0;
+  
   const handleZoomIn = () => setZoomLevel(prev => Math.min(prev + 0.25, 3));
   const handleZoomOut = () => setZoomLevel(prev => Math.max(prev - 0.25, 0.5));
   const handleResetZoom = () => setZoomLevel(1);
 
   const renderSinglePage = () => {
       const currentPage = pages[currentPageIndex];
+      const currentQuality = qualities[currentPageIndex];
+      // Line boxes belong to the preprocessed image, so the original is shown without them.
+      const imageBase64 = showOriginal ? originalImages[currentPage.pageNumber] : currentPage.imageBase64;
+      const lineBoxes = showOriginal ? [] : currentLineBoxes;
       return (
+        <div className="flex-grow flex overflow-hidden">
+        <nav className="w-28 flex-shrink-0 border-r border-gray-700 overflow-y-auto p-2 space-y-1">
+            {order.map(index => (
+                <button
+                    key={index}
+                    onClick={() => setCurrentPageIndex(index)}
+                    className={`w-full flex justify-between items-center px-2 py-1 rounded text-sm ${index === currentPageIndex ? 'bg-gray-700 text-white' : 'text-gray-400 hover:bg-gray-700/50'}`}
+                >
+                    <span>p. {pages[index].pageNumber}</span>
+                    <QualityBadge quality={qualities[index]} />
+                </button>
+            ))}
+            {order.length === 0 && <p className="text-xs text-gray-500 p-1">No pages below {LOW_CONFIDENCE_SCORE}.</p>}
+        </nav>
         <main className="flex-grow grid grid-cols-1 md:grid-cols-2 gap-4 p-4 overflow-hidden">
             <div className="flex flex-col bg-gray-900 rounded-lg overflow-hidden border border-gray-700 relative">
                 <div className="flex justify-between items-center p-2 bg-gray-800 border-b border-gray-700 z-10">
-                    <h3 className="text-center font-semibold text-sm">Page {currentPageIndex + 1}</h3>
+                    <div className="flex items-center space-x-2 min-w-0">
+                        <h3 className="text-center font-semibold text-sm">Page {currentPage.pageNumber}</h3>
+                        <QualityBadge quality={currentQuality} />
+                        {currentQuality.reasons.length > 0 && <span className="text-xs text-gray-400 truncate">{currentQuality.reasons.join('; ')}</span>}
+                    </div>
                     <div className="flex items-center space-x-2">
+                        {canCompare && (
+                            <div className="flex bg-gray-700 rounded p-0.5 mr-2 text-xs" title="Compare with the page before preprocessing">
+                                <button onClick={() => setShowOriginal(true)} className={`px-2 py-0.5 rounded ${showOriginal ? 'bg-gray-600 text-white' : 'text-gray-400 hover:text-white'}`}>Before</button>
+                                <button onClick={() => setShowOriginal(false)} className={`px-2 py-0.5 rounded ${!showOriginal ? 'bg-gray-600 text-white' : 'text-gray-400 hover:text-white'}`}>After</button>
+                            </div>
+                        )}
                         <button onClick={handleZoomOut} className="p-1 hover:bg-gray-700 rounded text-gray-300" title="Zoom Out"><ZoomOutIcon className="w-4 h-4" /></button>
                         <button onClick={handleResetZoom} className="text-xs font-mono text-gray-400 w-12 text-center hover:text-white" title="Reset Zoom">{Math.round(zoomLevel * 100)}%</button>
                         <button onClick={handleZoomIn} className="p-1 hover:bg-gray-700 rounded text-gray-300" title="Zoom In"><ZoomInIcon className="w-4 h-4" /></button>
                     </div>
                 </div>
                 <div className="flex-grow overflow-auto bg-gray-950 flex items-start justify-center p-2">
-                    <img 
-                        src={`data:image/jpeg;base64,${currentPage.imageBase64}`} 
-                        alt={`Page ${currentPageIndex + 1}`}
-                        style={{ 
-                            width: `${zoomLevel * 100}%`,
-                            maxWidth: 'none',
-                            height: 'auto',
-                            transition: 'width 0.2s ease-out'
-                        }}
-                    />
+                    {imageBase64 ? (
+                    <div
+                        onClick={lineBoxes.length > 0 ? handleImageClick : undefined}
+                        className={`relative flex-shrink-0 ${lineBoxes.length > 0 ? 'cursor-crosshair' : ''}`}
+                        title={lineBoxes.length > 0 ? 'Click a line to find it in the text' : undefined}
+                        style={{ width: `${zoomLevel * 100}%`, transition: 'width 0.2s ease-out' }}
+                    >
+                        <img 
+                            src={`data:image/jpeg;base64,${imageBase64}`} 
+                            alt={`Page ${currentPage.pageNumber}`}
+                            className="w-full h-auto"
+                        />
+                        {activeBox && !showOriginal && (
+                            <div
+                                className="absolute border-2 border-teal-400 bg-teal-400/20 rounded-sm pointer-events-none"
+                                style={{
+                                    top: `${activeBox.top * 100}%`,
+                                    left: `${activeBox.left * 100}%`,
+                                    height: `${(activeBox.bottom - activeBox.top) * 100}%`,
+                                    width: `${(activeBox.right - activeBox.left) * 100}%`,
+                                }}
+                            />
+                        )}
+                    </div>
+                    ) : showOriginal ? (
+                        <LoaderIcon className="w-8 h-8 text-teal-400 mt-8" />
+                    ) : (
+                        <p className="text-sm text-gray-500 mt-8">No page image.</p>
+                    )}
                 </div>
             </div>
             <div className="flex flex-col bg-gray-900 rounded-lg overflow-hidden border border-gray-700">
-                 <h3 className="text-center font-semibold p-2 bg-gray-800 border-b border-gray-700 text-sm">Extracted Text (Editable)</h3>
+                <div className="flex justify-between items-center p-2 bg-gray-800 border-b border-gray-700">
+                    <h3 className="font-semibold text-sm">Extracted Text (Editable)</h3>
+                    {onReOcrPage && (
+                        <button
+                            onClick={() => setReOcrIndex(currentPageIndex)}
+                            className="px-2 py-1 text-xs bg-gray-700 text-gray-300 rounded hover:bg-gray-600 border border-gray-600"
+                            title="OCR this page again with other settings"
+                        >
+                            Re-OCR
+                        </button>
+                    )}
+                </div>
                 <textarea
+                    ref={textareaRef}
                     value={pageTexts[currentPageIndex]}
                     onChange={(e) => handleTextChange(currentPageIndex, e.target.value)}
+                    onSelect={(e) => handleCursorMove(e.currentTarget)}
                     className="w-full h-full p-4 bg-gray-900 text-gray-300 font-mono text-sm resize-none border-0 focus:ring-1 focus:ring-teal-500"
                     spellCheck="false"
                     dir="auto"
                 />
             </div>
         </main>
+        </div>
       );
   };
 
   const renderListView = () => {
       return (
         <main className="flex-grow p-4 overflow-y-auto space-y-8 bg-gray-900/50">
-            {pages.map((page, index) => (
+            {order.map(index => {
+                const page = pages[index];
+                return (
                 <div key={index} className="flex flex-col md:flex-row gap-4 p-4 bg-gray-800 rounded-xl border border-gray-700">
                     <div className="flex-1 flex flex-col">
                         <div className="flex justify-between items-center p-2 border-b border-gray-700 mb-2">
-                            <h3 className="font-bold text-gray-300">Page {index + 1}</h3>
+                            <h3 className="font-bold text-gray-300 flex items-center space-x-2">
+                                <span>Page {page.pageNumber}</span>
+                                <QualityBadge quality={qualities[index]} />
+                                {qualities[index].reasons.length > 0 && <span className="text-xs font-normal text-gray-400">{qualities[index].reasons.join('; ')}</span>}
+                            </h3>
                              <div className="flex items-center space-x-2">
                                 <button onClick={handleZoomOut} className="p-1 hover:bg-gray-700 rounded text-gray-300"><ZoomOutIcon className="w-4 h-4" /></button>
                                 <span className="text-xs font-mono text-gray-400">{Math.round(zoomLevel * 100)}%</span>
@@ -95,7 +299,7 @@ export const OcrReviewer: React.FC<OcrReviewerProps> = ({ pages, onConfirm, onCa
                          <div className="flex-grow overflow-auto bg-gray-950 rounded-lg border border-gray-700 max-h-[600px] flex items-start justify-center">
                             <img 
                                 src={`data:image/jpeg;base64,${page.imageBase64}`} 
-                                alt={`Page ${index + 1}`}
+                                alt={`Page ${page.pageNumber}`}
                                 style={{ width: `${zoomLevel * 100}%`, maxWidth: 'none', transition: 'width 0.2s ease-out' }}
                                 className="p-2"
                             />
@@ -112,7 +316,8 @@ export const OcrReviewer: React.FC<OcrReviewerProps> = ({ pages, onConfirm, onCa
                         />
                     </div>
                 </div>
-            ))}
+                );
+            })}
         </main>
       );
   };
@@ -123,8 +328,42 @@ export const OcrReviewer: React.FC<OcrReviewerProps> = ({ pages, onConfirm, onCa
         <div>
             <h2 className="text-lg font-bold text-white">OCR Review</h2>
             <p className="text-sm text-gray-400">Verify and correct the extracted text.</p>
+            {nativePageCount > 0 && (
+                <p className="text-sm text-gray-400 mt-1">
+                    Only the {totalPages} pages without usable native text were OCR'd; the other {nativePageCount} pages of {documentPages} keep their native text.
+                </p>
+            )}
+            {isPartial && (
+                <p className="text-sm text-yellow-400 mt-1">
+                    OCR was stopped after {pages.length} of {totalPages} pages.
+                    {onResumeOcr && (
+                        <button onClick={() => onResumeOcr(pageTexts)} className="ml-2 underline text-teal-400 hover:text-teal-300">
+                            Resume OCR
+                        </button>
+                    )}
+                </p>
+            )}
+        </div>
+
+        <div className="flex items-center space-x-3 text-sm">
+            <span className={lowCount > 0 ? 'text-red-400' : 'text-gray-400'}>{lowCount} of {pages.length} pages below {LOW_CONFIDENCE_SCORE}</span>
+            <select
+                value={sortBy}
+                onChange={e => setSortBy(e.target.value as 'page' | 'score')}
+                className="bg-gray-700 border border-gray-600 rounded p-1 text-sm text-white"
+            >
+                <option value="page">Page order</option>
+                <option value="score">Lowest score first</option>
+            </select>
+            <label className="flex items-center space-x-2 text-gray-300 cursor-pointer">
+                <input type="checkbox" checked={lowOnly} onChange={e => setLowOnly(e.target.checked)} className="w-4 h-4 rounded bg-gray-700 border-gray-600 text-teal-500 focus:ring-teal-600" />
+                <span>Low confidence only</span>
+            </label>
+            <button onClick={goToWorstPage} className="px-3 py-1.5 text-xs bg-gray-700 text-gray-300 rounded-md hover:bg-gray-600 border border-gray-600">
+                Jump to Worst Page
+            </button>
         </div>
-        
+
         <div className="flex bg-gray-700 rounded-lg p-1 space-x-1">
             <button 
                 onClick={() => setViewMode('paged')}
@@ -147,6 +386,17 @@ export const OcrReviewer: React.FC<OcrReviewerProps> = ({ pages, onConfirm, onCa
       
       {viewMode === 'paged' ? renderSinglePage() : renderListView()}
 
+      {reOcrIndex !== null && onReOcrPage && (
+        <ReOcrPanel
+            pageNumber={pages[reOcrIndex].pageNumber}
+            currentText={pageTexts[reOcrIndex]}
+            documentPreprocessing={preprocessing}
+            onRun={(options, signal) => onReOcrPage(pages[reOcrIndex].pageNumber, options, signal)}
+            onAccept={page => handleAcceptReOcr(reOcrIndex, page)}
+            onClose={() => setReOcrIndex(null)}
+        />
+      )}
+
       <footer className="p-4 border-t border-gray-700 flex justify-between items-center flex-shrink-0 bg-gray-800 rounded-b-xl">
         <button
             onClick={onCancel}
@@ -157,13 +407,13 @@ export const OcrReviewer: React.FC<OcrReviewerProps> = ({ pages, onConfirm, onCa
 
         {viewMode === 'paged' && (
             <div className="flex items-center space-x-4 bg-gray-900/50 px-4 py-2 rounded-full border border-gray-700">
-            <button onClick={goToPrevious} disabled={currentPageIndex === 0} className="p-1 rounded-full hover:bg-gray-700 disabled:opacity-30 disabled:cursor-not-allowed transition-colors">
+            <button onClick={goToPrevious} disabled={orderPosition <= 0} className="p-1 rounded-full hover:bg-gray-700 disabled:opacity-30 disabled:cursor-not-allowed transition-colors">
                 <ArrowLeftIcon className="w-5 h-5 text-teal-400" />
             </button>
             <span className="font-mono text-sm font-medium text-gray-200">
-                {currentPageIndex + 1} <span className="text-gray-500">/</span> {pages.length}
+                {orderPosition + 1 || '–'} <span className="text-gray-500">/</span> {order.length}
             </span>
-            <button onClick={goToNext} disabled={currentPageIndex === pages.length - 1} className="p-1 rounded-full hover:bg-gray-700 disabled:opacity-30 disabled:cursor-not-allowed transition-colors">
+            <button onClick={goToNext} disabled={orderPosition === order.length - 1} className="p-1 rounded-full hover:bg-gray-700 disabled:opacity-30 disabled:cursor-not-allowed transition-colors">
                 <ArrowRightIcon className="w-5 h-5 text-teal-400" />
             </button>
             </div>
@@ -0,0 +1,215 @@
+import React, { useEffect, useState } from 'react';
+import type { PDFDocumentProxy } from 'pdfjs-dist/types/src/display/api';
+import { LoaderIcon, ShieldCheckIcon } from './icons';
+import { ImagePreprocessing, PageSelection, PreprocessingPresetId } from '../types';
+import { loadPdfDocument } from '../services/pdfExtractor';
+import { renderPageToJpegBase64 } from '../services/processors/imageUtils';
+import { formatPageRanges, parsePageRanges } from '../services/processors/pageSelection';
+import { PREPROCESSING_PRESETS, PreprocessingChoice, loadDocumentPreprocessing, saveDocumentPreprocessing } from '../services/preprocessingPresets';
+
+interface PageSelectorProps {
+  file: File;
+  onConfirm: (selection: PageSelection, preprocessing: ImagePreprocessing) => void;
+  onCancel: () => void;
+}
+
+const THUMBNAIL_SCALE = 0.3;
+
+const DPI_OPTIONS = [200, 300, 400];
+
+const PREPROCESSING_STEPS: { key: Exclude<keyof ImagePreprocessing, 'dpi'>; label: string }[] = [
+  { key: 'grayscale', label: 'Grayscale' },
+  { key: 'contrastStretch', label: 'Contrast' },
+  { key: 'binarize', label: 'Binarize' },
+  { key: 'deskew', label: 'Deskew' },
+  { key: 'despeckle', label: 'Despeckle' },
+];
+
+export const PageSelector: React.FC<PageSelectorProps> = ({ file, onConfirm, onCancel }) => {
+  const [pageCount, setPageCount] = useState(0);
+  const [thumbnails, setThumbnails] = useState<Record<number, string>>({});
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [expression, setExpression] = useState('');
+  const [expressionError, setExpressionError] = useState<string | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [preprocessing, setPreprocessing] = useState<PreprocessingChoice>(() => loadDocumentPreprocessing(file));
+
+  // Thumbnails are rendered one page at a time so the grid fills in while the rest load.
+  useEffect(() => {
+    let cancelled = false;
+    let pdfDocument: PDFDocumentProxy | null = null;
+    (async () => {
+      try {
+        pdfDocument = await loadPdfDocument(file);
+        if (cancelled) return;
+        const count = pdfDocument.numPages;
+        setPageCount(count);
+        setSelected(new Set(Array.from({ length: count }, (_, i) => i + 1)));
+        setExpression(count > 1 ? `1-${count}` : '1');
+        for (let pageNumber = 1; pageNumber <= count && !cancelled; pageNumber++) {
+          const page = await pdfDocument.getPage(pageNumber);
+          let image: string | null;
+          try {
+            image = await renderPageToJpegBase64(page, THUMBNAIL_SCALE);
+          } finally {
+            page.cleanup();
+          }
+          if (image && !cancelled) setThumbnails(prev => ({ ...prev, [pageNumber]: image }));
+        }
+      } catch (e) {
+        if (!cancelled) setLoadError((e as Error).message);
+      }
+    })();
+    return () => {
+      cancelled = true;
+      pdfDocument?.destroy();
+    };
+  }, [file]);
+
+  const handleExpressionChange = (value: string) => {
+    setExpression(value);
+    try {
+      setSelected(new Set(parsePageRanges(value, pageCount)));
+      setExpressionError(null);
+    } catch (e) {
+      setExpressionError((e as Error).message);
+    }
+  };
+
+  const setPages = (pages: number[]) => {
+    setSelected(new Set(pages));
+    setExpression(formatPageRanges(pages));
+    setExpressionError(null);
+  };
+
+  const togglePage = (pageNumber: number) => {
+    const next = new Set<number>(selected);
+    if (next.has(pageNumber)) next.delete(pageNumber);
+    else next.add(pageNumber);
+    setPages([...next]);
+  };
+
+  const handlePresetChange = (preset: PreprocessingPresetId) => {
+    if (preset === 'custom') setPreprocessing({ ...preprocessing, preset });
+    else setPreprocessing({ preset, settings: PREPROCESSING_PRESETS[preset].settings });
+  };
+
+  // Editing a single setting turns the choice into a custom one.
+  const updatePreprocessing = (change: Partial<ImagePreprocessing>) => {
+    setPreprocessing({ preset: 'custom', settings: { ...preprocessing.settings, ...change } });
+  };
+
+  const handleConfirm = () => {
+    saveDocumentPreprocessing(file, preprocessing);
+    onConfirm({ pages: [...selected].sort((a, b) => a - b), pageCount }, preprocessing.settings);
+  };
+
+  const allPages = Array.from({ length: pageCount }, (_, i) => i + 1);
+  const canContinue = selected.size > 0 && !expressionError;
+
+  return (
+    <div className="w-full max-w-[95vw] h-[90vh] bg-gray-800 rounded-xl shadow-2xl flex flex-col animate-fade-in border border-gray-700">
+      <header className="p-4 border-b border-gray-700 flex-shrink-0 space-y-3">
+        <div>
+          <h2 className="text-lg font-bold text-white">Select Pages</h2>
+          <p className="text-sm text-gray-400">
+            Choose the pages to process. Click a thumbnail to leave it out, or type ranges such as <code>1-3,10-20</code>, <code>12-</code> (to the end) or <code>!5</code> (exclude).
+          </p>
+        </div>
+        <div className="flex items-center space-x-3">
+          <input
+            type="text"
+            value={expression}
+            onChange={e => handleExpressionChange(e.target.value)}
+            disabled={pageCount === 0}
+            placeholder="e.g. 1-3,10-20"
+            className={`flex-grow bg-gray-700 border rounded p-1.5 text-sm text-white font-mono ${expressionError ? 'border-red-500' : 'border-gray-600'}`}
+          />
+          <button onClick={() => setPages(allPages)} className="px-3 py-1.5 text-xs bg-gray-700 text-gray-300 rounded-md hover:bg-gray-600 border border-gray-600">All</button>
+          <button onClick={() => setPages([])} className="px-3 py-1.5 text-xs bg-gray-700 text-gray-300 rounded-md hover:bg-gray-600 border border-gray-600">None</button>
+        </div>
+        {expressionError && <p className="text-xs text-red-400">{expressionError}</p>}
+        <div className="flex flex-wrap items-center gap-x-4 gap-y-2 text-sm text-gray-300">
+          <span className="text-gray-400" title="Applied to page images before OCR; remembered for this document">Scan preprocessing:</span>
+          <select
+            value={preprocessing.preset}
+            onChange={e => handlePresetChange(e.target.value as PreprocessingPresetId)}
+            className="bg-gray-700 border border-gray-600 rounded p-1 text-sm text-white"
+          >
+            {Object.entries(PREPROCESSING_PRESETS).map(([id, preset]) => <option key={id} value={id}>{preset.label}</option>)}
+            <option value="custom">Custom</option>
+          </select>
+          <select
+            value={preprocessing.settings.dpi ?? ''}
+            onChange={e => updatePreprocessing({ dpi: e.target.value ? Number(e.target.value) : null })}
+            className="bg-gray-700 border border-gray-600 rounded p-1 text-sm text-white"
+            title="Render resolution; adapts the render scale to the page size"
+          >
+            <option value="">Default scale</option>
+            {DPI_OPTIONS.map(dpi => <option key={dpi} value={dpi}>{dpi} DPI</option>)}
+          </select>
+          {PREPROCESSING_STEPS.map(step => (
+            <label key={step.key} className="flex items-center space-x-1.5 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={preprocessing.settings[step.key]}
+                onChange={e => updatePreprocessing({ [step.key]: e.target.checked })}
+                className="w-4 h-4 rounded bg-gray-700 border-gray-600 text-teal-500 focus:ring-teal-600"
+              />
+              <span>{step.label}</span>
+            </label>
+          ))}
+        </div>
+      </header>
+
+      <main className="flex-grow overflow-y-auto p-4">
+        {loadError ? (
+          <p className="text-sm text-red-400">Could not read the PDF: {loadError}</p>
+        ) : pageCount === 0 ? (
+          <div className="flex justify-center items-center h-full"><LoaderIcon className="w-8 h-8 text-teal-400" /></div>
+        ) : (
+          <div className="grid grid-cols-3 sm:grid-cols-4 md:grid-cols-6 lg:grid-cols-8 gap-3">
+            {allPages.map(pageNumber => {
+              const isSelected = selected.has(pageNumber);
+              return (
+                <button
+                  key={pageNumber}
+                  onClick={() => togglePage(pageNumber)}
+                  className={`relative flex flex-col items-center p-1.5 rounded-lg border transition-colors ${isSelected ? 'border-teal-500 bg-gray-900' : 'border-gray-700 bg-gray-900/40 opacity-40 hover:opacity-70'}`}
+                  title={isSelected ? `Leave out page ${pageNumber}` : `Include page ${pageNumber}`}
+                >
+                  <div className="w-full aspect-[3/4] flex items-center justify-center bg-white/5 rounded overflow-hidden">
+                    {thumbnails[pageNumber] ? (
+                      <img src={`data:image/jpeg;base64,${thumbnails[pageNumber]}`} alt={`Page ${pageNumber}`} className="max-w-full max-h-full object-contain" />
+                    ) : (
+                      <LoaderIcon className="w-4 h-4 text-gray-600" />
+                    )}
+                  </div>
+                  <span className={`mt-1 text-xs ${isSelected ? 'text-white' : 'text-gray-500 line-through'}`}>{pageNumber}</span>
+                  <input type="checkbox" checked={isSelected} readOnly tabIndex={-1} className="absolute top-2 right-2 w-4 h-4 rounded pointer-events-none" />
+                </button>
+              );
+            })}
+          </div>
+        )}
+      </main>
+
+      <footer className="p-4 border-t border-gray-700 flex justify-between items-center flex-shrink-0">
+        <button
+          onClick={onCancel}
+          className="px-4 py-2 bg-red-600/90 text-white font-bold rounded-md hover:bg-red-500 transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={handleConfirm}
+          disabled={!canContinue}
+          className="px-6 py-2 bg-teal-600 text-white font-bold rounded-md hover:bg-teal-500 transition-colors flex items-center disabled:opacity-40"
+        >
+          <ShieldCheckIcon className="w-5 h-5 mr-2" />
+          Continue with {selected.size} of {pageCount} Pages
+        </button>
+      </footer>
+    </div>
+  );
+};
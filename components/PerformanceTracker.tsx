@@ -34,6 +34,12 @@ export const PerformanceTracker: React.FC<PerformanceTrackerProps> = ({ elapsedT
                 F: {apiCalls.flash} | P: {apiCalls.pro}
             </span>
         </div>
+        {apiCalls.cacheHits > 0 && (
+          <div className="flex items-center space-x-2">
+            <span className="text-gray-400">Cache Hits:</span>
+            <span className="font-mono text-emerald-300 w-24 text-right">{apiCalls.cacheHits}</span>
+          </div>
+        )}
       </div>
     </div>
   );
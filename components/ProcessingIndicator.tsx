@@ -14,8 +14,34 @@ interface ProcessingIndicatorProps {
   currentActivity?: string;
   activityLog?: string[];
   onStop?: () => void; // Added onStop prop
+  liveOutput?: { label: string; text: string } | null; // Streamed text of the chunk/page in progress
 }
 
+// Only the tail is rendered; a full Pro-model chunk would make every update expensive.
+const LIVE_OUTPUT_TAIL_CHARS = 2000;
+
+const LiveOutputPanel: React.FC<{ label: string; text: string }> = ({ label, text }) => {
+  const containerRef = useRef<HTMLPreElement>(null);
+
+  useEffect(() => {
+    if (containerRef.current) {
+        containerRef.current.scrollTop = containerRef.current.scrollHeight;
+    }
+  }, [text]);
+
+  return (
+    <div className="w-full text-left bg-gray-950/80 rounded-lg border border-gray-700 shadow-inner">
+      <h3 className="text-gray-400 font-semibold text-xs font-mono px-4 pt-3 pb-1 border-b border-gray-800 flex justify-between">
+        <span>Live Output: {label}</span>
+        <span className="text-gray-600">{text.length} chars</span>
+      </h3>
+      <pre ref={containerRef} className="p-4 h-40 overflow-y-auto font-mono text-xs text-teal-200/80 whitespace-pre-wrap break-words">
+        {text.length > LIVE_OUTPUT_TAIL_CHARS ? '…' + text.slice(-LIVE_OUTPUT_TAIL_CHARS) : text}
+      </pre>
+    </div>
+  );
+};
+
 const simpleStateConfig: Partial<Record<ProcessingState, { title: string }>> = {
   [ProcessingState.EXTRACTING]: {
     title: 'Extracting Text from PDF',
@@ -23,6 +49,9 @@ const simpleStateConfig: Partial<Record<ProcessingState, { title: string }>> = {
   [ProcessingState.OCR]: {
     title: 'Performing OCR with AI',
   },
+  [ProcessingState.PROCESSING_HYBRID_PDF]: {
+    title: 'OCR for Pages Without Native Text',
+  },
   [ProcessingState.TRANSFORMING_JSON]: {
     title: 'Transforming JSON with AI',
   },
@@ -37,6 +66,7 @@ export const ProcessingIndicator: React.FC<ProcessingIndicatorProps> = ({
   currentActivity,
   activityLog,
   onStop,
+  liveOutput,
 }) => {
   const logContainerRef = useRef<HTMLDivElement>(null);
 
@@ -86,6 +116,8 @@ export const ProcessingIndicator: React.FC<ProcessingIndicatorProps> = ({
           })}
         </div>
 
+        {liveOutput && <LiveOutputPanel label={liveOutput.label} text={liveOutput.text} />}
+
         <div className="flex flex-col space-y-2 w-full">
             <p className="text-sm text-gray-500">
             Please wait, this may take a moment for large or complex files.
@@ -129,6 +161,8 @@ export const ProcessingIndicator: React.FC<ProcessingIndicatorProps> = ({
           style={{ width: `${progress}%` }}
         ></div>
       </div>
+
+      {liveOutput && <LiveOutputPanel label={liveOutput.label} text={liveOutput.text} />}
       
        {onStop && (
             <button 
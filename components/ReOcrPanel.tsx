@@ -0,0 +1,156 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { LoaderIcon, ShieldCheckIcon } from './icons';
+import { DiffViewer } from './DiffViewer';
+import { ImagePreprocessing, OcrPage, PreprocessingPresetId, ReOcrOptions } from '../types';
+import { getKnownModels } from '../services/modelRegistry';
+import { PREPROCESSING_PRESETS } from '../services/preprocessingPresets';
+
+interface ReOcrPanelProps {
+  pageNumber: number;
+  currentText: string; // Text in the reviewer now, including the reviewer's edits
+  documentPreprocessing?: ImagePreprocessing; // Preprocessing the document was OCR'd with
+  onRun: (options: ReOcrOptions, signal: AbortSignal) => Promise<OcrPage>;
+  onAccept: (page: OcrPage) => void;
+  onClose: () => void;
+}
+
+const SCALE_OPTIONS = [2, 2.5, 3, 4];
+
+// A preset, or whatever preprocessing the document was OCR'd with.
+type PresetOption = Exclude<PreprocessingPresetId, 'custom'> | 'document';
+
+export const ReOcrPanel: React.FC<ReOcrPanelProps> = ({ pageNumber, currentText, documentPreprocessing, onRun, onAccept, onClose }) => {
+  const [model, setModel] = useState('');
+  const [scale, setScale] = useState(2.5);
+  const [preset, setPreset] = useState<PresetOption>('document');
+  const [extraInstruction, setExtraInstruction] = useState('');
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<OcrPage | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  const handleRun = async () => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setIsRunning(true);
+    setError(null);
+    try {
+      const preprocessing = preset === 'document' ? documentPreprocessing : PREPROCESSING_PRESETS[preset].settings;
+      const page = await onRun({ model, scale, preprocessing, extraInstruction }, controller.signal);
+      if (!controller.signal.aborted) setResult(page);
+    } catch (e) {
+      if (!controller.signal.aborted) setError((e as Error).message);
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
+    setIsRunning(false);
+  };
+
+  const inputClass = 'bg-gray-700 border border-gray-600 rounded p-1.5 text-sm text-white';
+
+  return (
+    <div className="fixed inset-0 bg-gray-900/80 backdrop-blur-sm flex items-center justify-center z-50 p-4 animate-fade-in">
+      <div className="w-full max-w-5xl h-[85vh] bg-gray-800 rounded-xl shadow-2xl flex flex-col border border-gray-700">
+        <header className="p-4 border-b border-gray-700 flex-shrink-0">
+          <h2 className="text-lg font-bold text-white">Re-OCR Page {pageNumber}</h2>
+          <p className="text-sm text-gray-400">
+            {result
+              ? 'Green lines are new, red lines would be replaced. Accepting replaces the page text, including your edits.'
+              : 'Run OCR on this page again with other settings. The current text stays until you accept the new result.'}
+          </p>
+        </header>
+
+        <main className="flex-grow overflow-hidden p-4">
+          {result ? (
+            <DiffViewer oldText={currentText} newText={result.ocrText} />
+          ) : (
+            <div className="space-y-4 max-w-2xl">
+              <label className="flex flex-col text-xs text-gray-400 space-y-1">
+                <span>Model</span>
+                <input
+                  list="re-ocr-models"
+                  value={model}
+                  onChange={e => setModel(e.target.value)}
+                  placeholder="OCR step model"
+                  className={`${inputClass} font-mono`}
+                />
+                <datalist id="re-ocr-models">
+                  {getKnownModels().map(m => <option key={m} value={m} />)}
+                </datalist>
+              </label>
+              <div className="flex space-x-4">
+                <label className="flex flex-col text-xs text-gray-400 space-y-1">
+                  <span>Preprocessing</span>
+                  <select value={preset} onChange={e => setPreset(e.target.value as PresetOption)} className={inputClass}>
+                    <option value="document">Same as document</option>
+                    {Object.entries(PREPROCESSING_PRESETS).map(([id, p]) => <option key={id} value={id}>{p.label}</option>)}
+                  </select>
+                </label>
+                <label className="flex flex-col text-xs text-gray-400 space-y-1" title="Used unless the preprocessing sets a DPI">
+                  <span>Render scale</span>
+                  <select value={scale} onChange={e => setScale(Number(e.target.value))} className={inputClass}>
+                    {SCALE_OPTIONS.map(s => <option key={s} value={s}>{s}×</option>)}
+                  </select>
+                </label>
+              </div>
+              <label className="flex flex-col text-xs text-gray-400 space-y-1">
+                <span>Extra instruction (optional)</span>
+                <textarea
+                  value={extraInstruction}
+                  onChange={e => setExtraInstruction(e.target.value)}
+                  rows={4}
+                  placeholder="e.g. The page has two columns; read the left column first."
+                  className={`${inputClass} resize-none`}
+                />
+              </label>
+              {isRunning && (
+                <p className="flex items-center text-sm text-gray-300"><LoaderIcon className="w-4 h-4 mr-2 text-teal-400" /> Running OCR on page {pageNumber}...</p>
+              )}
+              {error && <p className="text-sm text-red-400">Re-OCR failed: {error}</p>}
+            </div>
+          )}
+        </main>
+
+        <footer className="p-4 border-t border-gray-700 flex justify-between items-center flex-shrink-0">
+          <button
+            onClick={isRunning ? handleStop : onClose}
+            className="px-4 py-2 bg-red-600/90 text-white font-bold rounded-md hover:bg-red-500 transition-colors"
+          >
+            {isRunning ? 'Stop' : 'Cancel'}
+          </button>
+          {result ? (
+            <div className="flex space-x-3">
+              <button
+                onClick={() => setResult(null)}
+                className="px-4 py-2 bg-gray-600 text-white font-bold rounded-md hover:bg-gray-500 transition-colors"
+              >
+                Reject
+              </button>
+              <button
+                onClick={() => onAccept(result)}
+                className="px-6 py-2 bg-teal-600 text-white font-bold rounded-md hover:bg-teal-500 transition-colors flex items-center"
+              >
+                <ShieldCheckIcon className="w-5 h-5 mr-2" />
+                Accept New Text
+              </button>
+            </div>
+          ) : (
+            <button
+              onClick={handleRun}
+              disabled={isRunning}
+              className="px-6 py-2 bg-teal-600 text-white font-bold rounded-md hover:bg-teal-500 transition-colors disabled:opacity-40"
+            >
+              Run Re-OCR
+            </button>
+          )}
+        </footer>
+      </div>
+    </div>
+  );
+};
@@ -4,8 +4,11 @@ import Editor, { useMonaco } from '@monaco-editor/react';
 import { StructuredTextViewer } from './StructuredTextViewer';
 import { SideBySideViewer } from './SideBySideViewer';
 import { DownloadIcon, SparklesIcon, CodeTagIcon, ShieldCheckIcon, UndoIcon, RedoIcon, EyeIcon, PencilIcon, LanguageIcon, WordWrapIcon, IndentIcon, DocumentMagnifyingGlassIcon } from './icons';
-import type { SelectedSteps, ExtractionStats } from '../types';
+import type { SelectedSteps, ExtractionStats, StructureHintMode } from '../types';
 import type { ApiCallTracker } from '../hooks/usePerformanceTracker';
+import type { ResponseCacheStats } from '../services/responseCache';
+import type { UsageSnapshot, UsageTotals } from '../services/usageLedger';
+import { hasPageAnchors, pageAtLine } from '../services/processors/pageAnchors';
 
 export type ValidationReportItem = {
   line: number | null;
@@ -22,7 +25,7 @@ interface ResultViewerProps {
   fileName: string;
   currentText: string;
   onTextChange: (newText: string) => void;
-  onDownload: () => void; 
+  onDownload: (options: { pageAnchors: boolean }) => void; // pageAnchors: keep the {{page N}} lines
   activeVersion: DownloadVersion;
   onVersionSelect: (version: DownloadVersion) => void;
   textAfterStep1: string | null;
@@ -40,6 +43,8 @@ interface ResultViewerProps {
   canUndo: boolean;
   onReset: () => void;
   failedChunks: number[];
+  resumableRun?: { label: string; completed: number; total: number } | null; // Stopped chunked step that can continue
+  onResumeRun?: () => void;
   isEditMode: boolean;
   onToggleEditMode: () => void;
   onGoToLine: (lineNumber: number) => void;
@@ -54,6 +59,16 @@ interface ResultViewerProps {
   totalElapsedTime: number;
   apiCallStats: ApiCallTracker;
   extractionStats: ExtractionStats | null;
+  cacheStats?: ResponseCacheStats | null;
+  onRefreshCacheStats?: () => void;
+  onClearCache?: () => void;
+  bypassCache?: boolean; // When set, the next run ignores cached responses
+  onBypassCacheChange?: (bypass: boolean) => void;
+  usage?: UsageSnapshot;
+  onBudgetChange?: (budgetUsd: number | null) => void;
+  processingModeLabel?: string; // e.g. "Quality mode (...)", shown in the session summary
+  footnoteHints?: { label: string; mode: StructureHintMode; onModeChange: (mode: StructureHintMode) => void };
+  onDownloadReport?: () => void;
 }
 
 const formatTime = (totalSeconds: number): string => {
@@ -65,6 +80,17 @@ const formatTime = (totalSeconds: number): string => {
     return `${minutes}m ${seconds}s`;
 };
 
+const formatTokens = (n: number): string => n >= 10_000 ? `${(n / 1000).toFixed(1)}k` : String(n);
+
+const UsageRow: React.FC<{ label: string; totals: UsageTotals }> = ({ label, totals }) => (
+    <div className="flex justify-between">
+        <span className="truncate mr-2" title={label}>{label}:</span>
+        <span className="text-white whitespace-nowrap">
+            {formatTokens(totals.promptTokens)}↑ {formatTokens(totals.outputTokens)}↓ <span className="text-amber-300">${totals.cost.toFixed(4)}</span>
+        </span>
+    </div>
+);
+
 export const ResultViewer = React.forwardRef<ResultViewerRef, ResultViewerProps>(({
   fileName,
   currentText,
@@ -87,6 +113,8 @@ export const ResultViewer = React.forwardRef<ResultViewerRef, ResultViewerProps>
   canUndo,
   onReset,
   failedChunks,
+  resumableRun,
+  onResumeRun,
   isEditMode,
   onToggleEditMode,
   onGoToLine,
@@ -101,6 +129,16 @@ export const ResultViewer = React.forwardRef<ResultViewerRef, ResultViewerProps>
   totalElapsedTime,
   apiCallStats,
   extractionStats,
+  cacheStats,
+  onRefreshCacheStats,
+  onClearCache,
+  bypassCache,
+  onBypassCacheChange,
+  usage,
+  onBudgetChange,
+  processingModeLabel,
+  onDownloadReport,
+  footnoteHints,
 }, ref) => {
   // We use a Ref to store the Monaco editor instance
   const editorInstanceRef = useRef<any>(null);
@@ -108,6 +146,12 @@ export const ResultViewer = React.forwardRef<ResultViewerRef, ResultViewerProps>
   const [activeSidebarTab, setActiveSidebarTab] = useState<'tools' | 'log'>('tools');
   const [isWordWrapEnabled, setIsWordWrapEnabled] = useState(true);
   const [showDebugStats, setShowDebugStats] = useState(false);
+  const [cursorLine, setCursorLine] = useState<number | null>(null); // 1-based line last clicked or moved to
+  const [keepPageAnchors, setKeepPageAnchors] = useState(false);
+
+  useEffect(() => {
+    if (activeSidebarTab === 'log') onRefreshCacheStats?.();
+  }, [activeSidebarTab]);
 
   // Hook to configure Monaco (theme, language)
   const monaco = useMonaco();
@@ -140,6 +184,8 @@ export const ResultViewer = React.forwardRef<ResultViewerRef, ResultViewerProps>
                     [/{{-footnote\d+}}/, 'tag.footnote'],
                     [/{{footnotenumber\d+}}/, 'tag.footnote'],
                     [/{{-footnotenumber\d+}}/, 'tag.footnote'],
+
+                    [/{{page \d+}}/, 'tag.page'],
                     
                     [/\/\/.*/, 'comment'],
                 ]
@@ -158,6 +204,7 @@ export const ResultViewer = React.forwardRef<ResultViewerRef, ResultViewerProps>
                 { token: 'tag.level', foreground: '4ADE80' }, // green-400 fallback
                 { token: 'tag.textlevel', foreground: '9CA3AF' }, // gray-400
                 { token: 'tag.footnote', foreground: 'C084FC' }, // purple-400
+                { token: 'tag.page', foreground: '4B5563' }, // gray-600, anchors stay in the background
                 { token: 'comment', foreground: '6B7280', fontStyle: 'italic' }, // gray-500
             ],
             colors: {
@@ -170,10 +217,21 @@ export const ResultViewer = React.forwardRef<ResultViewerRef, ResultViewerProps>
 
   const handleEditorDidMount = (editor: any) => {
     editorInstanceRef.current = editor;
+    editor.onDidChangeCursorPosition((e: any) => setCursorLine(e.position.lineNumber));
+  };
+
+  // Structured viewer: the clicked line becomes the current line.
+  const handleViewerClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const lineElement = (e.target as HTMLElement).closest('[id^="line-"]');
+    if (lineElement) setCursorLine(Number(lineElement.id.slice('line-'.length)) + 1);
   };
 
+  const documentHasPageAnchors = hasPageAnchors(currentText);
+  const cursorPage = documentHasPageAnchors && cursorLine !== null ? pageAtLine(currentText, cursorLine) : null;
+
   useImperativeHandle(ref, () => ({
     goToLine: (lineNumber: number) => {
+      setCursorLine(lineNumber);
       if (isEditMode && editorInstanceRef.current) {
         const editor = editorInstanceRef.current;
         // Monaco lines are 1-based
@@ -276,30 +334,68 @@ export const ResultViewer = React.forwardRef<ResultViewerRef, ResultViewerProps>
   return (
     <div className="w-full max-w-7xl h-[85vh] bg-gray-800 rounded-xl shadow-2xl flex flex-col animate-fade-in relative">
       
-      {showDebugStats && extractionStats && (
-        <div className="absolute top-16 left-4 z-50 bg-gray-900 border border-teal-500/50 p-4 rounded-lg shadow-xl w-80 animate-fade-in text-sm font-mono">
+      {showDebugStats && (
+        <div className="absolute top-16 left-4 z-50 bg-gray-900 border border-teal-500/50 p-4 rounded-lg shadow-xl w-96 max-h-[80vh] overflow-y-auto animate-fade-in text-sm font-mono">
           <div className="flex justify-between items-center mb-2 border-b border-gray-700 pb-2">
-             <h4 className="font-bold text-teal-400">Extraction Debug</h4>
+             <h4 className="font-bold text-teal-400">{extractionStats ? 'Extraction Debug' : 'Debug Stats'}</h4>
              <button onClick={() => setShowDebugStats(false)} className="text-gray-500 hover:text-white">&times;</button>
           </div>
+          {extractionStats && (
           <div className="space-y-2 text-gray-300">
              <div className="flex justify-between"><span>Method:</span> <span className="text-white">{extractionStats.method}</span></div>
              <div className="flex justify-between"><span>Total Pages:</span> <span className="text-white">{extractionStats.totalPages}</span></div>
              <div className="flex justify-between"><span>Text Pages:</span> <span className="text-green-400">{extractionStats.textPages}</span></div>
              <div className="flex justify-between"><span>Image (OCR) Pages:</span> <span className="text-yellow-400">{extractionStats.imagePages}</span></div>
+             {extractionStats.skippedPages > 0 && <div className="flex justify-between"><span>Skipped Pages:</span> <span className="text-gray-400">{extractionStats.skippedPages}</span></div>}
              <div className="flex justify-between"><span>Avg Chars/Page:</span> <span className="text-white">{Math.round(extractionStats.averageCharsPerPage)}</span></div>
           </div>
+          )}
+          {usage && (
+          <div className="space-y-2 text-gray-300 mt-3 pt-3 border-t border-gray-700">
+             <h5 className="font-bold text-teal-400">Token Usage</h5>
+             <div className="flex justify-between"><span>Calls:</span> <span className="text-white">{usage.total.calls}</span></div>
+             <div className="flex justify-between"><span>Prompt / Output:</span> <span className="text-white">{formatTokens(usage.total.promptTokens)} / {formatTokens(usage.total.outputTokens)}</span></div>
+             <div className="flex justify-between"><span>Total Tokens:</span> <span className="text-white">{formatTokens(usage.total.totalTokens)}</span></div>
+             <div className="flex justify-between"><span>Est. Cost:</span> <span className="text-amber-300 font-bold">${usage.total.cost.toFixed(4)}</span></div>
+             {Object.keys(usage.byStep).length > 0 && (
+                <div className="pt-2 text-xs space-y-1">
+                    <p className="text-gray-500">By step</p>
+                    {Object.entries(usage.byStep).map(([step, totals]) => <UsageRow key={step} label={step} totals={totals} />)}
+                </div>
+             )}
+             {Object.keys(usage.byModel).length > 0 && (
+                <div className="pt-2 text-xs space-y-1">
+                    <p className="text-gray-500">By model</p>
+                    {Object.entries(usage.byModel).map(([model, totals]) => <UsageRow key={model} label={model} totals={totals} />)}
+                </div>
+             )}
+             {onBudgetChange && (
+                <label className="flex justify-between items-center pt-2">
+                    <span>Budget (USD):</span>
+                    <input
+                        type="number"
+                        min="0"
+                        step="0.5"
+                        placeholder="No limit"
+                        value={usage.budgetUsd ?? ''}
+                        onChange={(e) => onBudgetChange(e.target.value === '' ? null : Math.max(0, parseFloat(e.target.value)))}
+                        className="w-28 bg-gray-800 border border-gray-600 rounded px-2 py-1 text-right text-white"
+                    />
+                </label>
+             )}
+          </div>
+          )}
         </div>
       )}
 
       <header className="p-4 border-b border-gray-700 flex justify-between items-center flex-shrink-0">
         <div className="flex items-center space-x-3">
             <h2 className="text-lg font-bold text-white truncate max-w-xs" title={fileName}>{fileName}</h2>
-            {extractionStats && (
+            {(extractionStats || usage) && (
                 <button 
                     onClick={() => setShowDebugStats(!showDebugStats)}
                     className="p-1.5 bg-gray-700 hover:bg-teal-700/50 rounded text-teal-400 transition-colors"
-                    title="View Extraction Debug Info"
+                    title="View Debug Stats (extraction, tokens, cost)"
                 >
                     <DocumentMagnifyingGlassIcon className="w-4 h-4" />
                 </button>
@@ -339,6 +435,11 @@ export const ResultViewer = React.forwardRef<ResultViewerRef, ResultViewerProps>
           <div className="flex-shrink-0 border-b border-gray-700 px-4 py-2 flex justify-between items-center bg-gray-900/50">
              <h3 className="text-sm font-medium text-gray-300">
                 {isTranslationVisible ? 'Side-by-Side Comparison' : isEditMode ? 'Advanced Editor' : 'Structured Viewer'}
+                {!isTranslationVisible && cursorLine !== null && documentHasPageAnchors && (
+                    <span className="ml-3 text-xs text-gray-500" title="Source page of the current line">
+                        Line {cursorLine} · {cursorPage !== null ? `PDF page ${cursorPage}` : 'before the first page'}
+                    </span>
+                )}
              </h3>
              {!isTranslationVisible && (
                 <div className="flex items-center space-x-2">
@@ -397,7 +498,7 @@ export const ResultViewer = React.forwardRef<ResultViewerRef, ResultViewerProps>
                   />
               </div>
             ) : (
-              <StructuredTextViewer text={currentText} isWordWrapEnabled={isWordWrapEnabled} />
+              <StructuredTextViewer text={currentText} isWordWrapEnabled={isWordWrapEnabled} onClick={handleViewerClick} />
             )}
           </div>
         </main>
@@ -419,10 +520,22 @@ export const ResultViewer = React.forwardRef<ResultViewerRef, ResultViewerProps>
                             <div className="p-3 bg-yellow-900/50 border border-yellow-700 rounded-md">
                             <h4 className="font-semibold text-yellow-300">Warning</h4>
                             <p className="text-sm text-yellow-400 mt-1">
-                                Processing failed for chunks: {failedChunks.join(', ')}. Original content was kept for these sections.
+                                Processing failed, was blocked or was truncated for chunks: {failedChunks.join(', ')}. Original content was kept for these sections (see the log).
                             </p>
                             </div>
                         )}
+
+                        {resumableRun && onResumeRun && (
+                            <div className="p-3 bg-blue-900/40 border border-blue-700 rounded-md">
+                            <h4 className="font-semibold text-blue-300">Stopped: {resumableRun.label}</h4>
+                            <p className="text-sm text-blue-200 mt-1">
+                                {resumableRun.completed} of {resumableRun.total} chunks were processed before stopping.
+                            </p>
+                            <button onClick={onResumeRun} className="mt-2 w-full px-3 py-1.5 bg-blue-600 text-white text-sm font-semibold rounded-md hover:bg-blue-500 transition-colors">
+                                Resume
+                            </button>
+                            </div>
+                        )}
                         
                         <div>
                             <h3 className="text-lg font-semibold text-gray-200 mb-4">Batch Processing</h3>
@@ -482,6 +595,21 @@ export const ResultViewer = React.forwardRef<ResultViewerRef, ResultViewerProps>
                                     <SparklesIcon className="w-5 h-5 mr-2" />
                                     {textAfterStep1_5 ? "Re-run Step 1.5" : "Run Step 1.5 (Footnotes)"}
                                 </button>
+                                {footnoteHints && (
+                                    <div className="space-y-1">
+                                        <label htmlFor="footnote-hints-select" className="block text-xs text-gray-400">{footnoteHints.label}</label>
+                                        <select
+                                            id="footnote-hints-select"
+                                            value={footnoteHints.mode}
+                                            onChange={e => footnoteHints.onModeChange(e.target.value as StructureHintMode)}
+                                            className="w-full bg-gray-700 border border-gray-600 text-white text-sm rounded p-1.5"
+                                        >
+                                            <option value="hints">Send as hints to the model</option>
+                                            <option value="direct">Apply directly (no AI)</option>
+                                            <option value="off">Ignore</option>
+                                        </select>
+                                    </div>
+                                )}
                                 <button 
                                     onClick={() => handleSaveAndProceed(onConfigureContent)} 
                                     className={`w-full flex items-center justify-center px-4 py-3 font-bold rounded-md transition-colors ${!currentText ? 'bg-gray-700 text-gray-500 cursor-not-allowed' : 'bg-teal-700 text-white hover:bg-teal-600'} disabled:opacity-50`} 
@@ -585,7 +713,18 @@ export const ResultViewer = React.forwardRef<ResultViewerRef, ResultViewerProps>
                                       </label>
                                   </div>
                               </fieldset>
-                              <button onClick={onDownload} className="w-full flex items-center justify-center mt-3 px-4 py-2 text-sm rounded-md transition-colors bg-green-600 hover:bg-green-500 text-white font-semibold">
+                              {documentHasPageAnchors && (
+                                  <label className="flex items-center space-x-2 text-xs text-gray-400 cursor-pointer" title="{{page N}} lines mark the source page of the text that follows">
+                                      <input
+                                          type="checkbox"
+                                          checked={keepPageAnchors}
+                                          onChange={e => setKeepPageAnchors(e.target.checked)}
+                                          className="w-4 h-4 rounded bg-gray-700 border-gray-600 text-teal-500 focus:ring-teal-600"
+                                      />
+                                      <span>Keep page anchors in the download</span>
+                                  </label>
+                              )}
+                              <button onClick={() => onDownload({ pageAnchors: keepPageAnchors })} className="w-full flex items-center justify-center mt-3 px-4 py-2 text-sm rounded-md transition-colors bg-green-600 hover:bg-green-500 text-white font-semibold">
                                   <DownloadIcon className="w-4 h-4 mr-2" />
                                   Download Displayed Version
                               </button>
@@ -597,6 +736,9 @@ export const ResultViewer = React.forwardRef<ResultViewerRef, ResultViewerProps>
                     <div className="p-6">
                         <h3 className="text-lg font-semibold text-gray-200 mb-4">Session Summary</h3>
                          <div className="p-4 bg-gray-900/50 rounded-lg border border-gray-700 mb-6 font-mono text-sm">
+                            {processingModeLabel && (
+                                <div className="mb-2 pb-2 border-b border-gray-700/50 text-xs text-indigo-300">{processingModeLabel}</div>
+                            )}
                             <div className="flex justify-between items-center">
                                 <span className="text-gray-400">Total Time:</span>
                                 <span className="text-teal-300">{formatTime(totalElapsedTime)}</span>
@@ -613,6 +755,37 @@ export const ResultViewer = React.forwardRef<ResultViewerRef, ResultViewerProps>
                                 <span className="text-gray-400 font-bold">Total API Calls:</span>
                                 <span className="text-sky-300 font-bold">{apiCallStats.total}</span>
                             </div>
+                            <div className="flex justify-between items-center mt-1">
+                                <span className="text-gray-400">Cache Hits:</span>
+                                <span className="text-emerald-300">{apiCallStats.cacheHits}</span>
+                            </div>
+                            {onDownloadReport && (
+                                <button onClick={onDownloadReport} className="w-full flex items-center justify-center mt-3 px-3 py-1.5 text-sm bg-gray-700 text-white rounded-md hover:bg-gray-600 transition-colors font-sans">
+                                    <DownloadIcon className="w-4 h-4 mr-2" />
+                                    Download Session Report
+                                </button>
+                            )}
+                        </div>
+
+                        <h3 className="text-lg font-semibold text-gray-200 mb-4">Response Cache</h3>
+                        <div className="p-4 bg-gray-900/50 rounded-lg border border-gray-700 mb-6 text-sm space-y-3">
+                            <div className="flex justify-between items-center font-mono">
+                                <span className="text-gray-400">Stored:</span>
+                                <span className="text-emerald-300">
+                                    {cacheStats ? `${cacheStats.entries} responses · ${(cacheStats.bytes / (1024 * 1024)).toFixed(2)} MB` : '—'}
+                                </span>
+                            </div>
+                            {onBypassCacheChange && (
+                                <label className="flex items-center space-x-3 cursor-pointer">
+                                    <input type="checkbox" checked={!!bypassCache} onChange={e => onBypassCacheChange(e.target.checked)} className="w-4 h-4 rounded bg-gray-700 border-gray-600 text-teal-500 focus:ring-teal-600"/>
+                                    <span className="text-gray-300">Bypass cache for the next run</span>
+                                </label>
+                            )}
+                            {onClearCache && (
+                                <button onClick={onClearCache} disabled={!cacheStats?.entries} className="w-full px-3 py-1.5 text-sm bg-gray-700 text-white rounded-md hover:bg-gray-600 transition-colors disabled:opacity-30 disabled:cursor-not-allowed">
+                                    Clear Cache
+                                </button>
+                            )}
                         </div>
                         
                         <h3 className="text-lg font-semibold text-gray-200 mb-4">Full Log</h3>
@@ -24,6 +24,7 @@ const getTagClass = (tagContent: string): string => {
   if (tagContent.includes('level')) return 'text-green-400'; // Fallback for other levels
   if (tagContent.includes('text_level')) return 'text-gray-500 font-semibold';
   if (tagContent.includes('footnote')) return 'text-purple-400';
+  if (tagContent.startsWith('{{page ')) return 'text-gray-600 text-xs'; // page anchor
   return 'text-gray-500';
 };
 
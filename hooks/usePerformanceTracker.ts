@@ -1,16 +1,19 @@
 import { useState, useRef, useCallback, useEffect } from 'react';
+import { UsageSnapshot, getPriceTier, getUsageSnapshot, resetUsage, subscribeUsage } from '../services/usageLedger';
 
 // FIX: Define the shape of the API calls tracker.
 export type ApiCallTracker = {
   flash: number;
   pro: number;
   total: number;
+  cacheHits: number; // Calls answered from the response cache (not counted in total)
 };
 
 const initialApiCalls: ApiCallTracker = {
   flash: 0,
   pro: 0,
   total: 0,
+  cacheHits: 0,
 };
 
 export const usePerformanceTracker = () => {
@@ -18,6 +21,8 @@ export const usePerformanceTracker = () => {
   // FIX: apiCalls is now an object to track calls by model type.
   const [apiCalls, setApiCalls] = useState<ApiCallTracker>(initialApiCalls);
   const [isRunning, setIsRunning] = useState(false);
+  // Token usage and cost come from the service-level ledger, which sees every response.
+  const [usage, setUsage] = useState<UsageSnapshot>(getUsageSnapshot);
   const intervalRef = useRef<number | null>(null);
   const startTimeRef = useRef<number>(0);
 
@@ -41,12 +46,14 @@ export const usePerformanceTracker = () => {
     setIsRunning(false);
     setElapsedTime(0);
     setApiCalls(initialApiCalls);
+    resetUsage();
   }, []);
 
   // FIX: incrementApiCalls now accepts the model name to track types.
+  // The tier comes from the ledger's price table, so custom models are counted as they are priced.
   const incrementApiCalls = useCallback((modelName: string) => {
     setApiCalls(prev => {
-      const type = modelName.toLowerCase().includes('pro') ? 'pro' : 'flash';
+      const type = getPriceTier(modelName);
       return {
         ...prev,
         [type]: prev[type] + 1,
@@ -55,6 +62,12 @@ export const usePerformanceTracker = () => {
     });
   }, []);
 
+  const incrementCacheHits = useCallback(() => {
+    setApiCalls(prev => ({ ...prev, cacheHits: prev.cacheHits + 1 }));
+  }, []);
+
+  useEffect(() => subscribeUsage(setUsage), []);
+
   useEffect(() => {
     if (isRunning) {
       intervalRef.current = window.setInterval(() => {
@@ -77,10 +90,12 @@ export const usePerformanceTracker = () => {
   return {
     elapsedTime,
     apiCalls,
+    usage,
     isRunning,
     startTimer,
     stopTimer,
     resetTimer,
     incrementApiCalls,
+    incrementCacheHits,
   };
 };
@@ -0,0 +1,103 @@
+/* =====================================================================================
+   GEMINI KEY PROXY
+   Optional local server that holds the Gemini API key so the browser never sees it.
+   The app (LLM_PROVIDER=proxy) sends the same SDK requests here; the proxy swaps in the
+   real key and forwards them to Google, streaming the response back unchanged.
+
+   Usage: GEMINI_API_KEY=... npm run proxy
+   Env:   PORT (8787), ALLOWED_ORIGIN (http://localhost:3000),
+          HOST (127.0.0.1; set 0.0.0.0 only to let other machines spend the key)
+===================================================================================== */
+
+import http from "node:http";
+import { Readable, pipeline } from "node:stream";
+
+const UPSTREAM = "https://generativelanguage.googleapis.com";
+const PORT = Number(process.env.PORT) || 8787;
+// Loopback only by default: CORS does not stop non-browser clients on the network.
+const HOST = process.env.HOST || "127.0.0.1";
+const ALLOWED_ORIGIN = process.env.ALLOWED_ORIGIN || "http://localhost:3000";
+const API_KEY = process.env.GEMINI_API_KEY;
+
+// Only the calls the app makes; anything else is refused so this isn't an open relay.
+const ALLOWED_PATH = /^\/v1(beta)?\/models\/[\w.-]+:(generateContent|streamGenerateContent|countTokens)$/;
+
+// Hop-by-hop and auth headers are not forwarded.
+const DROPPED_REQUEST_HEADERS = new Set(["host", "connection", "content-length", "origin", "referer", "x-goog-api-key", "authorization"]);
+const FORWARDED_RESPONSE_HEADERS = ["content-type", "retry-after"];
+
+if (!API_KEY) {
+  console.error("GEMINI_API_KEY is not set.");
+  process.exit(1);
+}
+
+const setCors = (res) => {
+  res.setHeader("Access-Control-Allow-Origin", ALLOWED_ORIGIN);
+  res.setHeader("Access-Control-Allow-Methods", "POST, OPTIONS");
+  res.setHeader("Access-Control-Allow-Headers", "content-type, x-goog-api-key, x-goog-api-client");
+};
+
+const readBody = async (req) => {
+  const parts = [];
+  for await (const part of req) parts.push(part);
+  return Buffer.concat(parts);
+};
+
+const server = http.createServer(async (req, res) => {
+  setCors(res);
+  if (req.method === "OPTIONS") {
+    res.writeHead(204).end();
+    return;
+  }
+
+  const url = new URL(req.url ?? "/", `http://localhost:${PORT}`);
+  if (req.method !== "POST" || !ALLOWED_PATH.test(url.pathname)) {
+    res.writeHead(404, { "content-type": "application/json" }).end(JSON.stringify({ error: "Not found" }));
+    return;
+  }
+
+  // The browser stopping a call (timeout or Stop) cancels the upstream request too.
+  const upstreamAbort = new AbortController();
+  res.on("close", () => {
+    if (!res.writableFinished) upstreamAbort.abort();
+  });
+
+  try {
+    const headers = {};
+    for (const [name, value] of Object.entries(req.headers)) {
+      if (!DROPPED_REQUEST_HEADERS.has(name) && typeof value === "string") headers[name] = value;
+    }
+    headers["x-goog-api-key"] = API_KEY;
+
+    const upstream = await fetch(`${UPSTREAM}${url.pathname}${url.search}`, {
+      method: "POST",
+      headers,
+      body: await readBody(req),
+      signal: upstreamAbort.signal,
+    });
+
+    const responseHeaders = {};
+    for (const name of FORWARDED_RESPONSE_HEADERS) {
+      const value = upstream.headers.get(name);
+      if (value) responseHeaders[name] = value;
+    }
+    res.writeHead(upstream.status, responseHeaders);
+    if (upstream.body) {
+      // An upstream reset or the browser going away mid-stream must not take the proxy down.
+      pipeline(Readable.fromWeb(upstream.body), res, (err) => {
+        if (!err) return;
+        if (!upstreamAbort.signal.aborted) console.error("Proxy stream error:", err);
+        res.destroy();
+      });
+    } else res.end();
+  } catch (err) {
+    if (upstreamAbort.signal.aborted) return;
+    console.error("Proxy error:", err);
+    if (!res.headersSent) res.writeHead(502, { "content-type": "application/json" });
+    res.end(JSON.stringify({ error: String(err?.message ?? err) }));
+  }
+});
+
+server.listen(PORT, HOST, () => {
+  console.log(`Gemini proxy on http://${HOST}:${PORT} (allowing ${ALLOWED_ORIGIN})`);
+});
@@ -0,0 +1,117 @@
+/* =====================================================================================
+   API KEY STORE
+   The user's own Gemini API key, entered in the settings panel; it is never part of the build.
+   Two storage options:
+   - session:   sessionStorage only, gone when the tab closes.
+   - encrypted: localStorage, AES-GCM with a key derived from a passphrase (PBKDF2). The
+                passphrase is asked once per session to unlock it; the plain key then lives
+                in memory only.
+===================================================================================== */
+
+export type ApiKeyStorage = "session" | "encrypted";
+
+export type ApiKeyStatus = {
+  /** A key is available for calls. */
+  active: boolean;
+  source: ApiKeyStorage | null;
+  /** An encrypted key is saved in this browser (it may still be locked). */
+  hasEncryptedKey: boolean;
+};
+
+const SESSION_STORAGE_KEY = "pdf-ocr-api-key";
+const ENCRYPTED_STORAGE_KEY = "pdf-ocr-api-key-encrypted";
+const PBKDF2_ITERATIONS = 250_000;
+
+type EncryptedKey = { salt: string; iv: string; data: string };
+
+const session = (): Storage | null => (typeof sessionStorage !== "undefined" ? sessionStorage : null);
+const local = (): Storage | null => (typeof localStorage !== "undefined" ? localStorage : null);
+
+let apiKey: string | null = session()?.getItem(SESSION_STORAGE_KEY) ?? null;
+let source: ApiKeyStorage | null = apiKey ? "session" : null;
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach((listener) => listener());
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), (c) => c.charCodeAt(0));
+
+const deriveKey = async (passphrase: string, salt: Uint8Array): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey("raw", new TextEncoder().encode(passphrase), "PBKDF2", false, ["deriveKey"]);
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", salt, iterations: PBKDF2_ITERATIONS, hash: "SHA-256" },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"]
+  );
+};
+
+/* --- Reading --- */
+
+export const getApiKey = (): string | null => apiKey;
+
+export const getApiKeyStatus = (): ApiKeyStatus => ({
+  active: apiKey !== null,
+  source,
+  hasEncryptedKey: !!local()?.getItem(ENCRYPTED_STORAGE_KEY),
+});
+
+export const subscribeApiKey = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/* --- Writing --- */
+
+/** Keeps the key for this browser tab only. */
+export const setSessionApiKey = (key: string) => {
+  apiKey = key.trim();
+  source = "session";
+  session()?.setItem(SESSION_STORAGE_KEY, apiKey);
+  notify();
+};
+
+/** Saves the key encrypted with `passphrase` and unlocks it for this session. */
+export const saveEncryptedApiKey = async (key: string, passphrase: string) => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const cryptoKey = await deriveKey(passphrase, salt);
+  const data = await crypto.subtle.encrypt({ name: "AES-GCM", iv }, cryptoKey, new TextEncoder().encode(key.trim()));
+  const stored: EncryptedKey = { salt: toBase64(salt), iv: toBase64(iv), data: toBase64(new Uint8Array(data)) };
+  local()?.setItem(ENCRYPTED_STORAGE_KEY, JSON.stringify(stored));
+
+  session()?.removeItem(SESSION_STORAGE_KEY);
+  apiKey = key.trim();
+  source = "encrypted";
+  notify();
+};
+
+/** Decrypts the saved key. Returns false when the passphrase is wrong or nothing is saved. */
+export const unlockEncryptedApiKey = async (passphrase: string): Promise<boolean> => {
+  const raw = local()?.getItem(ENCRYPTED_STORAGE_KEY);
+  if (!raw) return false;
+  try {
+    const stored = JSON.parse(raw) as EncryptedKey;
+    const cryptoKey = await deriveKey(passphrase, fromBase64(stored.salt));
+    const data = await crypto.subtle.decrypt({ name: "AES-GCM", iv: fromBase64(stored.iv) }, cryptoKey, fromBase64(stored.data));
+    apiKey = new TextDecoder().decode(data);
+    source = "encrypted";
+    notify();
+    return true;
+  } catch {
+    // AES-GCM authentication fails on a wrong passphrase.
+    return false;
+  }
+};
+
+/** Removes the key from memory, the session and the encrypted store. */
+export const forgetApiKey = () => {
+  apiKey = null;
+  source = null;
+  session()?.removeItem(SESSION_STORAGE_KEY);
+  local()?.removeItem(ENCRYPTED_STORAGE_KEY);
+  notify();
+};
@@ -172,11 +172,12 @@ export const getChunksForStep2 = (text: string): string[] => {
 
 /**
  * Step 3: Batch Fix / Structure Audit
- * Optimized: 30,000 chars.
+ * Optimized: 30,000 chars. `sizeFactor` scales the limit (processing mode).
  */
-export const getChunksForStep3 = (text: string): string[] => {
+export const getChunksForStep3 = (text: string, sizeFactor: number = 1): string[] => {
+  const maxChars = Math.round(MAX_OUTPUT_CHARS_STRICT * sizeFactor);
   // Priority 1: Try to fit in one context call if small enough
-  if (text.length <= MAX_OUTPUT_CHARS_STRICT) {
+  if (text.length <= maxChars) {
     return [text];
   }
 
@@ -184,8 +185,8 @@ export const getChunksForStep3 = (text: string): string[] => {
   const initialChunks = createChunksByTopLevelHeadline(text);
   
   if (initialChunks.length === 1) {
-    return createChunks(text, MAX_OUTPUT_CHARS_STRICT);
+    return createChunks(text, maxChars);
   }
 
-  return groupSmallChunksSafe(initialChunks, MAX_OUTPUT_CHARS_STRICT);
+  return groupSmallChunksSafe(initialChunks, maxChars);
 };
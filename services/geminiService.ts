@@ -1,7 +1,6 @@
 
-import { GoogleGenAI, GenerateContentResponse } from "@google/genai";
 import * as pdfjs from "pdfjs-dist";
-import { ProcessingMode, OcrPage } from "../types";
+import { ProcessingMode, OcrPage, ImagePreprocessing, ReOcrOptions } from "../types";
 import { loadPdfDocument } from "./pdfExtractor";
 import {
   getOcrPromptForLanguage,
@@ -11,10 +10,37 @@ import {
   getTableLinearizationPrompt,
   getTaskInstructionsForSpecificRefinement,
   getTaskInstructionsForConversationalRefinement,
+  getVerificationPrompt,
+  getVerificationFeedback,
+  getPageAnchorRule,
+  getOcrLineBoxRule,
+  getOcrExtraInstruction,
 } from "./promptRegistry";
 
 // Import processors to keep this file clean
 import { renderPageToJpegBase64 } from "./processors/imageUtils";
+import { guardPageAnchors, hasPageAnchors, joinPagesWithAnchors } from "./processors/pageAnchors";
+import { parseOcrLineBoxes, stripLineBoxes } from "./processors/ocrLineBoxes";
+import { LlmProvider, LlmRequest, LlmResponse, LlmPart, LlmUsage, getLlmProvider, registerDefaultLlmProvider, setLlmProvider } from "./providers/llmProvider";
+import { createGeminiProvider } from "./providers/geminiProvider";
+import { createFakeProvider } from "./providers/fakeProvider";
+import { createOpenAiCompatibleProvider } from "./providers/openAiCompatibleProvider";
+import { LlmError, classifyError, createAbortError, getRetryPolicy, isAbortError, throwIfAborted, withRetry } from "./retryPolicy";
+import {
+  acquireModelBudget,
+  configureScheduler,
+  estimateRequestTokens,
+  reportRateLimit,
+  reportRequestSuccess,
+  runScheduled,
+} from "./scheduler";
+import { computeCacheKey, getCachedResponse, putCachedResponse } from "./responseCache";
+import { configurePriceTable, recordUsage } from "./usageLedger";
+import { getLlmSessionMode } from "./llmSession";
+import { createChunks } from "./chunkingService";
+import { getApiKey } from "./apiKeyStore";
+import { MODEL_FAST, MODEL_STRICT, ModelStep, getStepModelConfig, isStepModelPinned, toGenerationConfig } from "./modelRegistry";
+import { MODE_CONTROLLED_STEPS, STEP_GUARDS, getProcessingPolicy } from "./processingPolicy";
 
 // Re-export structural validators so App.tsx can import them from here
 export { 
@@ -24,113 +50,309 @@ export {
   convertShortTagsToFullStructure
 } from "./processors/structureUtils";
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-
-// Define model constants
-export const MODEL_FAST = "gemini-flash-lite-latest";
-export const MODEL_STRICT = "gemini-3-pro-preview";
+export { MODEL_FAST, MODEL_STRICT };
+export {
+  MODEL_STEP_LABELS,
+  getModelRegistry,
+  getStepModelConfig,
+  setStepModelConfig,
+  resetModelRegistry,
+} from "./modelRegistry";
+export type { ModelStep, StepModelConfig } from "./modelRegistry";
+export { getProcessingPolicy, describeProcessingPolicy } from "./processingPolicy";
+
+export type ProviderKind = "gemini" | "proxy" | "fake" | "openai";
+
+/** Which backend this build talks to. Only "gemini" needs a key from the settings panel. */
+export const getProviderKind = (): ProviderKind => {
+  const kind = process.env.LLM_PROVIDER;
+  return kind === "proxy" || kind === "fake" || kind === "openai" ? kind : "gemini";
+};
 
-// Helper for delay
-const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+// Provider is resolved lazily so tests can swap it (setLlmProvider) before any call.
+//  - LLM_PROVIDER=fake   -> deterministic offline provider
+//  - LLM_PROVIDER=openai -> OpenAI-compatible local server at LLM_BASE_URL
+//  - LLM_PROVIDER=proxy  -> Gemini through the key-holding proxy at LLM_BASE_URL (server/geminiProxy.mjs)
+//  - otherwise           -> Gemini with the key entered in the settings panel
+const createDefaultProvider = (): LlmProvider => {
+  switch (getProviderKind()) {
+    case "fake":
+      return createFakeProvider();
+    case "openai": {
+      const fastModel = process.env.LLM_MODEL_FAST;
+      const strictModel = process.env.LLM_MODEL_STRICT || fastModel;
+      return createOpenAiCompatibleProvider({
+        baseUrl: process.env.LLM_BASE_URL || "http://localhost:8080/v1",
+        apiKey: process.env.LLM_API_KEY,
+        modelMap: {
+          ...(fastModel ? { [MODEL_FAST]: fastModel } : {}),
+          ...(strictModel ? { [MODEL_STRICT]: strictModel } : {}),
+        },
+      });
+    }
+    case "proxy":
+      // The proxy replaces this placeholder with the real key; the SDK only needs a non-empty one.
+      return createGeminiProvider({
+        getApiKey: () => "proxy",
+        baseUrl: process.env.LLM_BASE_URL || "http://localhost:8787",
+      });
+    default:
+      return createGeminiProvider({ getApiKey });
+  }
+};
 
-// --- REAL TIMEOUT IMPLEMENTATION ---
-const timeoutPromise = <T>(promise: Promise<T>, ms: number, errorMessage: string): Promise<T> => {
-  return Promise.race([
-    promise,
-    new Promise<T>((_, reject) => {
-      const id = setTimeout(() => {
-        clearTimeout(id);
-        reject(new Error(errorMessage));
+registerDefaultLlmProvider(createDefaultProvider);
+
+// The pro model has a much smaller quota than flash-lite.
+configureScheduler({
+  budgets: {
+    [MODEL_FAST]: { requestsPerMinute: 60, tokensPerMinute: 1_000_000 },
+    [MODEL_STRICT]: { requestsPerMinute: 20, tokensPerMinute: 500_000 },
+  },
+});
+
+// Published list prices (USD per 1M tokens); used for cost estimates only.
+configurePriceTable({
+  [MODEL_FAST]: { inputPerMillion: 0.1, outputPerMillion: 0.4 },
+  [MODEL_STRICT]: { inputPerMillion: 2, outputPerMillion: 12 },
+});
+
+export { setLlmProvider, getLlmProvider };
+export { LlmError, classifyError, configureRetryPolicy, createAbortError, isAbortError } from "./retryPolicy";
+export { configureScheduler, getSchedulerConfig, runScheduled } from "./scheduler";
+export { getResponseCacheStats, clearResponseCache } from "./responseCache";
+export { getLlmSessionMode, startRecording, stopRecording, startReplay, stopReplay, downloadRecording } from "./llmSession";
+export { configurePriceTable, setUsageBudget, setUsageStep, getUsageSnapshot, wouldExceedBudget } from "./usageLedger";
+export { getApiKeyStatus, subscribeApiKey } from "./apiKeyStore";
+
+// --- INACTIVITY TIMEOUT ---
+// Each attempt gets its own AbortController, so a timeout (or the caller's stop signal)
+// cancels the underlying request instead of leaving it running and billing.
+// `touch` restarts the timer (called on every streamed chunk), so only a stalled call times
+// out; a long output that keeps arriving is never killed. Without streaming it is a plain
+// wall-clock timeout.
+const inactivityTimeout = <T>(
+  run: (attemptSignal: AbortSignal, touch: () => void) => Promise<T>,
+  ms: number,
+  errorMessage: string,
+  parentSignal?: AbortSignal
+): Promise<T> => {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let onParentAbort: (() => void) | undefined;
+  let touch = () => {};
+
+  const guard = new Promise<never>((_, reject) => {
+    touch = () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        reject(new LlmError("TIMEOUT", `${errorMessage} (no output for ${Math.round(ms / 1000)}s)`));
+        controller.abort();
       }, ms);
-    }),
-  ]);
+    };
+    touch();
+    onParentAbort = () => {
+      reject(createAbortError());
+      controller.abort();
+    };
+    if (parentSignal?.aborted) onParentAbort();
+    else parentSignal?.addEventListener("abort", onParentAbort, { once: true });
+  });
+
+  return Promise.race([run(controller.signal, () => touch()), guard]).finally(() => {
+    clearTimeout(timer);
+    if (onParentAbort) parentSignal?.removeEventListener("abort", onParentAbort);
+  });
 };
 
-// Increased timeouts
-const DEFAULT_TIMEOUT_MS = 90_000;
-const PRO_TIMEOUT_MS = 480_000;
+/** Used when the provider reports no usage: 1 token ~= 4 chars. */
+const estimateUsage = (request: Omit<LlmRequest, "signal">, text: string): LlmUsage => {
+  const promptTokens = estimateRequestTokens(request);
+  const outputTokens = Math.ceil(text.length / 4);
+  return { promptTokens, outputTokens, totalTokens: promptTokens + outputTokens };
+};
+
+/** Streams one attempt, reporting the accumulated text after every chunk. */
+const streamContent = async (
+  provider: LlmProvider,
+  request: LlmRequest,
+  touch: () => void,
+  onPartialText: (text: string) => void
+): Promise<LlmResponse> => {
+  const response: LlmResponse = { text: "" };
+  for await (const chunk of provider.generateContentStream!(request)) {
+    touch();
+    if (chunk.usage) response.usage = chunk.usage;
+    if (chunk.finishReason) response.finishReason = chunk.finishReason;
+    if (chunk.text) {
+      response.text += chunk.text;
+      onPartialText(response.text);
+    }
+  }
+  return response;
+};
+
+/** Turns an incomplete generation into a typed error instead of returning partial or empty text. */
+const assertCompleteResponse = (response: LlmResponse) => {
+  switch (response.finishReason) {
+    case "MAX_TOKENS":
+      throw new LlmError("TRUNCATION", `MAX_TOKENS: output cut off after ${response.text.length} chars`);
+    case "SAFETY":
+    case "RECITATION":
+      throw new LlmError("SAFETY_BLOCK", `${response.finishReason}: response blocked by the model's content filter`);
+  }
+};
+
+/**
+ * Single entry point for model calls: waits for the model's rate budget (outside the
+ * timeout), then runs one attempt. 429s and successes feed back into the scheduler,
+ * and token usage goes to the usage ledger.
+ * With `onPartialText`, the call streams (when the provider can) and `ms` only bounds
+ * the gap between chunks.
+ */
+const callModel = async (
+  request: Omit<LlmRequest, "signal">,
+  ms: number,
+  errorMessage: string,
+  signal?: AbortSignal,
+  onPartialText?: (text: string) => void
+): Promise<LlmResponse> => {
+  await acquireModelBudget(request.model, estimateRequestTokens(request), signal);
+  const provider = getLlmProvider();
+  try {
+    const response = await inactivityTimeout(
+      (attemptSignal, touch) =>
+        onPartialText && provider.generateContentStream
+          ? streamContent(provider, { ...request, signal: attemptSignal }, touch, onPartialText)
+          : provider.generateContent({ ...request, signal: attemptSignal }),
+      ms,
+      errorMessage,
+      signal
+    );
+    reportRequestSuccess();
+    recordUsage(request.model, response.usage ?? estimateUsage(request, response.text));
+    return response;
+  } catch (err) {
+    const error = classifyError(err);
+    if (error.kind === "RATE_LIMIT") reportRateLimit(request.model, error.retryAfterMs);
+    throw err;
+  }
+};
+
+/**
+ * Model, generation config and timeout for a step, as set in the model registry. With a
+ * processing mode, OCR and the chunked steps switch to the mode's model tier unless the
+ * step's model is pinned in the registry.
+ */
+const resolveStep = (step: ModelStep, mode?: ProcessingMode) => {
+  const stepConfig = getStepModelConfig(step);
+  const resolved = { model: stepConfig.model, config: toGenerationConfig(stepConfig), timeoutMs: stepConfig.timeoutMs };
+  if (mode === undefined || !MODE_CONTROLLED_STEPS.includes(step) || isStepModelPinned(step)) return resolved;
+
+  const policy = getProcessingPolicy(mode);
+  return { ...resolved, model: policy.model, timeoutMs: Math.max(resolved.timeoutMs, policy.minTimeoutMs) };
+};
 
 /* =====================================================================================
    OCR
 ===================================================================================== */
 
+export type OcrRunOptions = {
+  /** Streams each page's text so far, labelled "Page N". */
+  onPartialText?: (text: string, label: string) => void;
+  /** Image preprocessing for the rendered pages (default: none). */
+  preprocessing?: ImagePreprocessing;
+  /** Also ask for a box per line, for the OCR review (default false). */
+  withLineBoxes?: boolean;
+};
+
+export type PdfOcrOptions = OcrRunOptions & {
+  /** First page to OCR; selected pages before it count as done (default 1). */
+  startPage?: number;
+  /** 1-based page selection (default: every page). */
+  pages?: number[];
+};
+
+/**
+ * OCRs every page (or every page in `pages`) from `startPage` on, several pages at a time
+ * through the scheduler. Results keep page order. When `signal` aborts, returns the contiguous
+ * run of pages finished so far; callers resume by passing `startPage = last done page + 1`.
+ */
 export const performOcrOnPdf = async (
   file: File,
   onApiCall: (model: string) => void,
   mode: ProcessingMode,
   language: string,
   onProgress: (progress: number) => void,
-  onLog?: (message: string) => void
+  onLog?: (message: string) => void,
+  signal?: AbortSignal,
+  options: PdfOcrOptions = {}
 ): Promise<OcrPage[]> => {
+  const { startPage = 1, onPartialText, pages, preprocessing, withLineBoxes = false } = options;
   const pdfDocument = await loadPdfDocument(file);
   const numPages = pdfDocument.numPages;
 
-  const model = MODEL_FAST;
-  const config = {};
-  const pageResults: OcrPage[] = [];
+  const { model, config, timeoutMs } = resolveStep("ocr", mode);
+  const selected = (pages ?? Array.from({ length: numPages }, (_, k) => k + 1)).filter((n) => n >= 1 && n <= numPages);
+  const pageNumbers = selected.filter((n) => n >= startPage);
+  const doneBefore = selected.length - pageNumbers.length;
 
-  for (let i = 1; i <= numPages; i++) {
-    const pageNumber = i;
+  const ocrPage = async (pageNumber: number): Promise<OcrPage> => {
     onLog?.(`Processando página ${pageNumber} de ${numPages}...`);
     const page = await pdfDocument.getPage(pageNumber);
 
     try {
-      const base64Data = await renderPageToJpegBase64(page);
-      if (!base64Data) {
-        pageResults.push({ ocrText: "", imageBase64: "" });
-        continue;
-      }
+      const base64Data = await renderPageToJpegBase64(page, undefined, preprocessing);
+      if (!base64Data) return { pageNumber, ocrText: "", imageBase64: "" };
 
       const imagePart = { inlineData: { mimeType: "image/jpeg", data: base64Data } };
-      const textPart = { text: getOcrPromptForLanguage(language) };
-
-      let retries = 3;
-      let success = false;
-      let textResult = "";
+      const textPart = { text: getOcrPromptForLanguage(language) + (withLineBoxes ? getOcrLineBoxRule() : "") };
 
-      while (retries > 0 && !success) {
-        try {
+      const textResult = await withRetry(
+        "ocr",
+        async () => {
           onApiCall(model);
-          const response: GenerateContentResponse = await timeoutPromise(
-            ai.models.generateContent({
+          const response: LlmResponse = await callModel(
+            {
               model,
               contents: { parts: [imagePart, textPart] },
               config,
-            }),
-            DEFAULT_TIMEOUT_MS,
-            "TIMEOUT_OCR"
+            },
+            timeoutMs,
+            "TIMEOUT_OCR",
+            signal,
+            onPartialText && ((text) => onPartialText(withLineBoxes ? stripLineBoxes(text) : text, `Page ${pageNumber}`))
           );
+          return response.text ?? "";
+        },
+        { label: `OCR page ${pageNumber}`, onLog, signal }
+      );
 
-          textResult = response.text ?? "";
-          success = true;
-        } catch (err: any) {
-          const isTimeout = err.message?.includes("TIMEOUT");
-          const isRateLimit = err.status === 429 || err.message?.includes("429");
-          const isInternal = err.message?.includes("500") || err.message?.includes("Internal error") || err.status === 500;
-
-          if ((isInternal || isTimeout || isRateLimit) && retries > 1) {
-            const waitTime = isRateLimit ? 5000 * (4 - retries) : 2000 * (4 - retries);
-            await delay(waitTime);
-            retries--;
-            onLog?.(`Retrying page ${pageNumber} due to ${isRateLimit ? "Quota Limit (429)" : "Error"}...`);
-          } else {
-            throw err;
-          }
-        }
-      }
-
-      pageResults.push({ ocrText: textResult, imageBase64: base64Data });
       onLog?.(`✓ Página ${pageNumber} processada.`);
-    } catch (error) {
+      if (!withLineBoxes) return { pageNumber, ocrText: textResult, imageBase64: base64Data };
+      const { text, lineBoxes } = parseOcrLineBoxes(textResult);
+      return { pageNumber, ocrText: text, imageBase64: base64Data, lineBoxes };
+    } catch (error: any) {
+      if (isAbortError(error)) throw error;
       console.error(`Error processing page ${pageNumber}`, error);
-      pageResults.push({ ocrText: `[ERROR: Could not process page ${pageNumber}]`, imageBase64: "" });
+      const kind = error instanceof LlmError ? ` (${error.kind})` : "";
+      return { pageNumber, ocrText: `[ERROR: Could not process page ${pageNumber}${kind}]`, imageBase64: "" };
     } finally {
       page.cleanup();
-      onProgress(Math.round((pageNumber / numPages) * 100));
     }
-  }
+  };
+
+  const results = await runScheduled(pageNumbers, ocrPage, {
+    signal,
+    onItemDone: (_index, _page, completed) =>
+      onProgress(Math.round(((doneBefore + completed) / selected.length) * 100)),
+  });
+
+  const firstMissing = results.findIndex((page) => page === undefined);
+  if (firstMissing === -1) return results as OcrPage[];
 
-  return pageResults;
+  onLog?.(`■ OCR stopped at page ${pageNumbers[firstMissing]}.`);
+  return results.slice(0, firstMissing) as OcrPage[];
 };
 
 export const extractTextWithOcr = async (
@@ -139,48 +361,179 @@ export const extractTextWithOcr = async (
   mode: ProcessingMode,
   language: string,
   onProgress: (progress: number) => void,
-  onLog?: (message: string) => void
+  onLog?: (message: string) => void,
+  signal?: AbortSignal
 ): Promise<string> => {
-  const ocrPages = await performOcrOnPdf(file, onApiCall, mode, language, onProgress, onLog);
+  const ocrPages = await performOcrOnPdf(file, onApiCall, mode, language, onProgress, onLog, signal);
+  throwIfAborted(signal);
   if (ocrPages.some((p) => p.ocrText.startsWith("[ERROR"))) {
     throw new Error("Falha no OCR de algumas páginas.");
   }
-  return ocrPages.map((p) => p.ocrText).join("\n\n--- PAGE BREAK ---\n\n");
+  return joinPagesWithAnchors(ocrPages.map((p) => p.ocrText), ocrPages.map((p) => p.pageNumber));
 };
 
 export const performOcrOnPageTextOnly = async (
   page: pdfjs.PDFPageProxy,
   language: string,
   mode: ProcessingMode,
-  onApiCall: (model: string) => void
+  onApiCall: (model: string) => void,
+  onLog?: (message: string) => void,
+  signal?: AbortSignal,
+  onPartialText?: (text: string) => void,
+  imageBase64?: string, // Already rendered page image; rendered here when omitted
+  withLineBoxes: boolean = false // Ask for line boxes; the result keeps them for parseOcrLineBoxes
 ): Promise<string> => {
   try {
-    const base64Data = await renderPageToJpegBase64(page);
+    const base64Data = imageBase64 ?? (await renderPageToJpegBase64(page));
     if (!base64Data) return `[ERROR: Could not render page.]`;
 
-    const modelName = MODEL_FAST;
-    onApiCall(modelName);
-
-    const response: GenerateContentResponse = await timeoutPromise(
-      ai.models.generateContent({
-        model: modelName,
-        contents: {
-          parts: [
-            { inlineData: { mimeType: "image/jpeg", data: base64Data } },
-            { text: getOcrPromptForLanguage(language) },
-          ],
-        },
-      }),
-      DEFAULT_TIMEOUT_MS,
-      "TIMEOUT_PAGE_OCR"
-    );
+    const { model, config, timeoutMs } = resolveStep("ocr", mode);
 
-    return response.text ?? "";
-  } catch {
+    return await withRetry(
+      "ocr",
+      async () => {
+        onApiCall(model);
+        const response: LlmResponse = await callModel(
+          {
+            model,
+            contents: {
+              parts: [
+                { inlineData: { mimeType: "image/jpeg", data: base64Data } },
+                { text: getOcrPromptForLanguage(language) + (withLineBoxes ? getOcrLineBoxRule() : "") },
+              ],
+            },
+            config,
+          },
+          timeoutMs,
+          "TIMEOUT_PAGE_OCR",
+          signal,
+          onPartialText && (withLineBoxes ? (text) => onPartialText(stripLineBoxes(text)) : onPartialText)
+        );
+        return response.text ?? "";
+      },
+      { label: `OCR page ${page.pageNumber}`, onLog, signal }
+    );
+  } catch (error) {
+    if (isAbortError(error)) throw error;
     return `[ERROR: Could not process page with OCR.]`;
   }
 };
 
+/**
+ * OCRs only the given pages (1-based), e.g. the image-only pages of a hybrid PDF whose other
+ * pages have native text. Each page is rendered once: the image is kept for review and passed
+ * to performOcrOnPageTextOnly. Same ordering and stop behaviour as performOcrOnPdf.
+ */
+export const performOcrOnSelectedPages = async (
+  file: File,
+  pageNumbers: number[],
+  onApiCall: (model: string) => void,
+  mode: ProcessingMode,
+  language: string,
+  onProgress: (progress: number) => void,
+  onLog?: (message: string) => void,
+  signal?: AbortSignal,
+  options: OcrRunOptions = {}
+): Promise<OcrPage[]> => {
+  const { onPartialText, preprocessing, withLineBoxes = false } = options;
+  const pdfDocument = await loadPdfDocument(file);
+
+  const ocrPage = async (pageNumber: number): Promise<OcrPage> => {
+    onLog?.(`Processando página ${pageNumber} (OCR)...`);
+    const page = await pdfDocument.getPage(pageNumber);
+    try {
+      const imageBase64 = await renderPageToJpegBase64(page, undefined, preprocessing);
+      if (!imageBase64) return { pageNumber, ocrText: `[ERROR: Could not render page ${pageNumber}]`, imageBase64: "" };
+      const rawText = await performOcrOnPageTextOnly(
+        page,
+        language,
+        mode,
+        onApiCall,
+        onLog,
+        signal,
+        onPartialText && ((text) => onPartialText(text, `Page ${pageNumber}`)),
+        imageBase64,
+        withLineBoxes
+      );
+      onLog?.(`✓ Página ${pageNumber} processada.`);
+      if (!withLineBoxes) return { pageNumber, ocrText: rawText, imageBase64 };
+      const { text, lineBoxes } = parseOcrLineBoxes(rawText);
+      return { pageNumber, ocrText: text, imageBase64, lineBoxes };
+    } finally {
+      page.cleanup();
+    }
+  };
+
+  const results = await runScheduled(pageNumbers, ocrPage, {
+    signal,
+    onItemDone: (_index, _page, completed) => onProgress(Math.round((completed / pageNumbers.length) * 100)),
+  });
+
+  const firstMissing = results.findIndex((page) => page === undefined);
+  if (firstMissing === -1) return results as OcrPage[];
+
+  onLog?.(`■ OCR stopped at page ${pageNumbers[firstMissing]}.`);
+  return results.slice(0, firstMissing) as OcrPage[];
+};
+
+/**
+ * OCRs one page again with other settings (model, render scale, preprocessing, an extra
+ * instruction), for comparison with its current text. Unlike the batch OCR, failures are
+ * thrown instead of being returned as `[ERROR` text.
+ */
+export const reOcrPage = async (
+  file: File,
+  pageNumber: number,
+  language: string,
+  mode: ProcessingMode,
+  options: ReOcrOptions,
+  onApiCall: (model: string) => void,
+  onLog?: (message: string) => void,
+  signal?: AbortSignal
+): Promise<OcrPage> => {
+  const pdfDocument = await loadPdfDocument(file);
+  try {
+    const page = await pdfDocument.getPage(pageNumber);
+    let imageBase64: string | null;
+    try {
+      imageBase64 = await renderPageToJpegBase64(page, options.scale, options.preprocessing);
+    } finally {
+      page.cleanup();
+    }
+    if (!imageBase64) throw new Error(`Could not render page ${pageNumber}.`);
+
+    const resolved = resolveStep("ocr", mode);
+    const model = options.model?.trim() || resolved.model;
+    const prompt =
+      getOcrPromptForLanguage(language) +
+      getOcrLineBoxRule() +
+      (options.extraInstruction?.trim() ? getOcrExtraInstruction(options.extraInstruction) : "");
+
+    const rawText = await withRetry(
+      "ocr",
+      async () => {
+        onApiCall(model);
+        const response: LlmResponse = await callModel(
+          {
+            model,
+            contents: { parts: [{ inlineData: { mimeType: "image/jpeg", data: imageBase64 } }, { text: prompt }] },
+            config: resolved.config,
+          },
+          resolved.timeoutMs,
+          "TIMEOUT_PAGE_OCR",
+          signal
+        );
+        return response.text ?? "";
+      },
+      { label: `Re-OCR page ${pageNumber}`, onLog, signal }
+    );
+    const { text, lineBoxes } = parseOcrLineBoxes(rawText);
+    return { pageNumber, ocrText: text, imageBase64, lineBoxes };
+  } finally {
+    pdfDocument.destroy();
+  }
+};
+
 /* =====================================================================================
    CHUNK PROCESSING / STEPS
 ===================================================================================== */
@@ -194,12 +547,90 @@ interface ProcessChunkOptions {
   onApiCall: (model: string) => void;
   mode: ProcessingMode;
   language: string;
+  /** Registry entry supplying model, generation config and timeout. */
+  step: ModelStep;
+  /** Overrides the step's model; its generation config still applies. */
   model?: string;
   onLog?: (message: string) => void;
   timeoutMs?: number;
   validator?: (input: string, output: string) => void;
+  signal?: AbortSignal;
+  /** Skip the response cache lookup for this call (the fresh result is still stored). */
+  bypassCache?: boolean;
+  onCacheHit?: () => void;
+  /** Streams the response and reports the text received so far. */
+  onPartialText?: (text: string) => void;
+  /** Name used in log lines, e.g. "Chunk 3/12". Split halves get ".1", ".2" appended. */
+  label?: string;
 }
 
+// A truncated chunk smaller than this is reported instead of being split again.
+const MIN_SPLIT_CHUNK_CHARS = 1000;
+const SPLIT_OVERLAP_CHARS = 500;
+// A chunk the verification model rejects is generated again this many times, with the issues in the prompt.
+const MAX_VERIFICATION_REASKS = 1;
+
+/**
+ * The model hit its output limit on this chunk: split the input in half with createChunks
+ * and process each part (recursively, if a part truncates again). Parts are joined the same
+ * way the step handlers join chunks.
+ */
+const processTruncatedChunk = async (options: ProcessChunkOptions, error: LlmError): Promise<string> => {
+  const { main_chunk_content: text, onLog, label = "Chunk" } = options;
+  const parts = createChunks(text, Math.ceil(text.length / 2));
+  if (text.length < MIN_SPLIT_CHUNK_CHARS || parts.length < 2) {
+    throw new LlmError("TRUNCATION", `${error.message}; ${text.length} chars cannot be split further.`);
+  }
+
+  onLog?.(`✂ [TRUNCATION] ${label}: output hit the token limit, re-running as ${parts.length} smaller parts.`);
+  const results: string[] = [];
+  for (let i = 0; i < parts.length; i++) {
+    results.push(
+      await processDocumentChunk({
+        ...options,
+        label: `${label}.${i + 1}`,
+        main_chunk_content: parts[i],
+        previous_chunk_overlap: i === 0 ? options.previous_chunk_overlap : parts[i - 1].slice(-SPLIT_OVERLAP_CHARS),
+        next_chunk_overlap: i === parts.length - 1 ? options.next_chunk_overlap : parts[i + 1].slice(0, SPLIT_OVERLAP_CHARS),
+      })
+    );
+  }
+  return results.join("\n\n");
+};
+
+/**
+ * QUALITY mode's second pass: the verification model reviews a chunk's output against its
+ * input and task. Returns the issues it found. If the check itself fails, the output is
+ * accepted (it already passed the step's guard) and a warning is logged.
+ */
+const verifyChunkOutput = async (
+  input: string,
+  output: string,
+  { task_instructions, language, onApiCall, onLog, signal }: ProcessChunkOptions,
+  label: string
+): Promise<string[]> => {
+  const stepModel = resolveStep("verification");
+  const { model, timeoutMs } = stepModel;
+  const config = { ...stepModel.config, responseMimeType: "application/json" };
+  try {
+    onApiCall(model);
+    const response = await callModel(
+      { model, contents: getVerificationPrompt(language, task_instructions, input, output), config },
+      timeoutMs,
+      "TIMEOUT_VERIFICATION",
+      signal
+    );
+    const verdict = JSON.parse(response.text || "{}");
+    if (verdict.ok !== false) return [];
+    const issues: string[] = Array.isArray(verdict.issues) ? verdict.issues.map(String) : [];
+    return issues.length > 0 ? issues : ["rejected without details"];
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    onLog?.(`⚠ ${label}: verification pass failed (${(error as Error).message}); keeping the guarded output.`);
+    return [];
+  }
+};
+
 export const processDocumentChunk = async (options: ProcessChunkOptions): Promise<string> => {
   const {
     main_chunk_content,
@@ -208,21 +639,31 @@ export const processDocumentChunk = async (options: ProcessChunkOptions): Promis
     next_chunk_overlap,
     task_instructions,
     onApiCall,
+    mode,
     language,
+    step,
     model: modelOverride,
+    timeoutMs: timeoutOverride,
     validator,
-    onLog
+    onLog,
+    signal,
+    bypassCache,
+    onCacheHit,
+    onPartialText,
+    label = "Chunk"
   } = options;
 
-  const model = modelOverride || MODEL_FAST;
-  const isStrictModel = model === MODEL_STRICT;
-  const config: any = isStrictModel ? { temperature: 0, topK: 1, topP: 0 } : {};
-  const currentTimeout = model.includes("pro") ? PRO_TIMEOUT_MS : DEFAULT_TIMEOUT_MS;
+  const policy = getProcessingPolicy(mode);
+  const stepModel = resolveStep(step, mode);
+  const model = modelOverride || stepModel.model;
+  const config = stepModel.config;
+  const currentTimeout = timeoutOverride ?? stepModel.timeoutMs;
+  const guard = validator ?? (policy.guardEveryStep ? STEP_GUARDS[step] : undefined);
 
   const createPrompt = (chunkContent: string) => `
 **DOCUMENT LANGUAGE: ${language}**
 **CONTEXT SUMMARY:** ${continuous_context_summary}
-**TASK INSTRUCTIONS:** ${task_instructions}
+**TASK INSTRUCTIONS:** ${task_instructions}${hasPageAnchors(chunkContent) ? getPageAnchorRule() : ""}
 
 **DOCUMENT CHUNK TO PROCESS:**
 ---
@@ -241,58 +682,82 @@ ${next_chunk_overlap || "N/A"}
 Process ONLY the [MAIN CHUNK CONTENT]. Return ONLY the result.
 `;
 
-  const MAX_RETRIES = 5;
+  const prompt = createPrompt(main_chunk_content);
+  // The checks a result had to pass are part of the key, so an unverified FAST result is never served in QUALITY mode.
+  const checks = {
+    mode,
+    guards: ["pageAnchors", ...(guard ? [validator ? "validator" : step] : []), ...(policy.verificationPass ? ["verification"] : [])],
+  };
+  const cacheKey = await computeCacheKey(model, config, prompt, checks);
+  // Record/replay sessions must see every call, so they never read from the cache.
+  if (cacheKey !== null && !bypassCache && getLlmSessionMode() === "live") {
+    const cached = await getCachedResponse(cacheKey);
+    if (cached !== null) {
+      onCacheHit?.();
+      return cached;
+    }
+  }
 
-  for (let attempt = 1; attempt <= MAX_RETRIES; attempt++) {
-    try {
-      if (attempt > 1) {
-          onLog?.(`Retry attempt ${attempt}/${MAX_RETRIES}...`);
-      }
-      onApiCall(model);
-      const response: GenerateContentResponse = await timeoutPromise(
-        ai.models.generateContent({ model, contents: createPrompt(main_chunk_content), config }),
-        currentTimeout,
-        "TIMEOUT_CHUNK_PROCESSING"
-      );
-      
-      const resultText = response.text ?? "";
-
-      // INTERNAL VALIDATION
-      if (validator) {
-          try {
-              validator(main_chunk_content, resultText);
-          } catch (validationError: any) {
-              onLog?.(`⚠️ Output validation failed: ${validationError.message}. Retrying...`);
-              throw new Error(`VALIDATION_FAILED: ${validationError.message}`);
-          }
-      }
+  const generate = (contents: string) =>
+    withRetry(
+      "chunk",
+      async () => {
+        onApiCall(model);
+        const response: LlmResponse = await callModel(
+          { model, contents, config },
+          currentTimeout,
+          "TIMEOUT_CHUNK_PROCESSING",
+          signal,
+          onPartialText
+        );
+        assertCompleteResponse(response);
 
-      return resultText;
-    } catch (error: any) {
-      const isTimeout = error.message?.includes("TIMEOUT");
-      const isRateLimit = error.status === 429 || error.message?.includes("429");
-      const isValidationFailed = error.message?.includes("VALIDATION_FAILED");
-      const isInternalError =
-        error.message?.includes("500") ||
-        error.message?.includes("Internal error") ||
-        error.message?.includes("Server") ||
-        error.status === 500 ||
-        error.status === 503;
-
-      if (isInternalError || isTimeout || isRateLimit || isValidationFailed) {
-        if (attempt < MAX_RETRIES) {
-          const baseDelay = isRateLimit ? 5000 : 2000;
-          const delayMs = baseDelay * Math.pow(2, attempt - 1) + Math.random() * 500;
-          await delay(delayMs);
-          continue;
+        const resultText = response.text ?? "";
+
+        // INTERNAL VALIDATION: page anchors in every mode, the step's guard when the policy asks for it
+        try {
+          guardPageAnchors(main_chunk_content, resultText);
+          guard?.(main_chunk_content, resultText);
+        } catch (validationError: any) {
+          throw new LlmError("VALIDATION", `VALIDATION_FAILED: ${validationError.message}`);
+        }
+
+        return resultText;
+      },
+      { label, onLog, signal }
+    );
+
+  try {
+    let resultText = await generate(prompt);
+    // Verification runs outside the generation retry: a rejection costs one bounded re-ask,
+    // not a full retry cycle of generations that are each verified again.
+    if (policy.verificationPass) {
+      for (let reask = 0; ; reask++) {
+        const issues = await verifyChunkOutput(main_chunk_content, resultText, options, label);
+        if (issues.length === 0) break;
+        if (reask === MAX_VERIFICATION_REASKS) {
+          const error = new LlmError("VALIDATION", `VERIFICATION_FAILED: ${issues.slice(0, 3).join("; ")}`);
+          error.attempts = reask + 1;
+          throw error;
         }
-        return `[ERROR: Failed after ${MAX_RETRIES} attempts. Reason: ${error.message}]`;
+        onLog?.(`⚠ ${label}: verification rejected the output (${issues[0]}); asking again.`);
+        resultText = await generate(prompt + getVerificationFeedback(issues));
       }
-      throw error;
     }
+    // Only validated results reach this point, so the cache never serves a rejected output.
+    if (cacheKey !== null) await putCachedResponse(cacheKey, model, resultText);
+    return resultText;
+  } catch (error: any) {
+    if (error instanceof LlmError && error.kind === "TRUNCATION") {
+      return processTruncatedChunk(options, error);
+    }
+    // Retryable kinds that ran out of attempts become an inline error marker; the rest
+    // (SAFETY_BLOCK, final TRUNCATION, ...) propagate so the caller can surface them.
+    if (error instanceof LlmError && getRetryPolicy("chunk").retryOn.includes(error.kind)) {
+      return `[ERROR: Failed after ${error.attempts} attempts (${error.kind}). Reason: ${error.message}]`;
+    }
+    throw error;
   }
-
-  return `[ERROR: Failed after ${MAX_RETRIES} attempts.]`;
 };
 
 /* =====================================================================================
@@ -302,43 +767,64 @@ Process ONLY the [MAIN CHUNK CONTENT]. Return ONLY the result.
 export const detectDocumentLanguage = async (
   textSnippet: string,
   supportedLanguages: string[],
-  onApiCall: (model: string) => void
+  onApiCall: (model: string) => void,
+  onLog?: (message: string) => void,
+  signal?: AbortSignal
 ): Promise<string> => {
-  const model = MODEL_FAST;
-  const config = {};
+  const { model, config, timeoutMs } = resolveStep("languageDetection");
   const prompt = getTaskInstructionsForLanguageDetection(supportedLanguages).replace(
     "[TEXT_SNIPPET_HERE]",
     textSnippet.substring(0, 2000)
   );
 
-  onApiCall(model);
   try {
-    const response: GenerateContentResponse = await timeoutPromise(
-      ai.models.generateContent({ model, contents: prompt, config }),
-      DEFAULT_TIMEOUT_MS,
-      "TIMEOUT_LANG_DETECT"
+    const response = await withRetry(
+      "utility",
+      () => {
+        onApiCall(model);
+        return callModel(
+          { model, contents: prompt, config },
+          timeoutMs,
+          "TIMEOUT_LANG_DETECT",
+          signal
+        );
+      },
+      { label: "Language detection", onLog, signal }
     );
     const detectedLang = response.text?.trim() ?? "";
     return supportedLanguages.includes(detectedLang) ? detectedLang : "";
-  } catch {
+  } catch (error) {
+    if (isAbortError(error)) throw error;
     return "";
   }
 };
 
-export const transformJsonToText = async (jsonString: string, onApiCall: (model: string) => void): Promise<string> => {
-  const model = MODEL_FAST;
-  const config = {};
+export const transformJsonToText = async (
+  jsonString: string,
+  onApiCall: (model: string) => void,
+  onLog?: (message: string) => void,
+  signal?: AbortSignal
+): Promise<string> => {
+  const { model, config, timeoutMs } = resolveStep("jsonTransform");
   const prompt = getTaskInstructionsForJsonTransform().replace("[JSON_STRING_HERE]", jsonString);
 
   try {
-    onApiCall(model);
-    const response: GenerateContentResponse = await timeoutPromise(
-      ai.models.generateContent({ model, contents: prompt, config }),
-      DEFAULT_TIMEOUT_MS,
-      "TIMEOUT_JSON_TRANSFORM"
+    const response = await withRetry(
+      "utility",
+      () => {
+        onApiCall(model);
+        return callModel(
+          { model, contents: prompt, config },
+          timeoutMs,
+          "TIMEOUT_JSON_TRANSFORM",
+          signal
+        );
+      },
+      { label: "JSON transform", onLog, signal }
     );
     return response.text ?? "";
   } catch (error: any) {
+    if (isAbortError(error)) throw error;
     return `[ERROR: ${error.message}]`;
   }
 };
@@ -357,12 +843,13 @@ export const compareAndCorrectText = async (
   referenceOcrText: string,
   onApiCall: (model: string) => void,
   mode: ProcessingMode,
-  language: string
+  language: string,
+  onLog?: (message: string) => void,
+  signal?: AbortSignal
 ): Promise<string> => {
-  const model = MODEL_STRICT;
-  const config = { temperature: 0 };
+  const { model, config, timeoutMs } = resolveStep("comparison");
 
-  const USER_CHUNK_SIZE = 4000;
+  const USER_CHUNK_SIZE = Math.round(4000 * getProcessingPolicy(mode).chunkSizeFactor);
   const userChunks = splitTextIntoChunks(userText, USER_CHUNK_SIZE);
 
   let processedText = "";
@@ -385,36 +872,30 @@ export const compareAndCorrectText = async (
       .replace("{user_text_here}", userChunk)
       .replace("{ocr_text_here}", referenceChunk);
 
-    let retries = 3;
     let chunkResult = "";
 
-    while (retries > 0 && !chunkResult) {
-      try {
-        onApiCall(model);
-        const response: GenerateContentResponse = await timeoutPromise(
-          ai.models.generateContent({ model, contents: prompt, config } as any),
-          PRO_TIMEOUT_MS,
-          "TIMEOUT_COMPARISON"
-        );
-
-        chunkResult = response.text ?? "";
-        if (!chunkResult) throw new Error("Empty response from AI");
-      } catch (error: any) {
-        const isTimeout = error.message?.includes("TIMEOUT");
-        const isRateLimit = error.status === 429 || error.message?.includes("429");
-        const isInternal =
-          error.message?.includes("500") || error.message?.includes("Internal error") || error.status === 500;
-
-        if ((isInternal || isTimeout || isRateLimit) && retries > 1) {
-          const waitTime = isRateLimit ? 5000 * (4 - retries) : 3000 * (4 - retries);
-          await delay(waitTime);
-          retries--;
-          continue;
-        }
-
-        chunkResult = userChunk + "\n// [ERROR: Comparison failed for this block]\n";
-        console.error("Chunk comparison error:", error);
-      }
+    try {
+      chunkResult = await withRetry(
+        "comparison",
+        async () => {
+          onApiCall(model);
+          const response: LlmResponse = await callModel(
+            { model, contents: prompt, config },
+            timeoutMs,
+            "TIMEOUT_COMPARISON",
+            signal
+          );
+          const text = response.text ?? "";
+          if (!text) throw new Error("Empty response from AI");
+          return text;
+        },
+        { label: `Comparison block ${i + 1}/${userChunks.length}`, onLog, signal }
+      );
+    } catch (error: any) {
+      if (isAbortError(error)) throw error;
+      const kind = error instanceof LlmError ? ` (${error.kind})` : "";
+      chunkResult = userChunk + `\n// [ERROR: Comparison failed for this block${kind}]\n`;
+      console.error("Chunk comparison error:", error);
     }
 
     processedText += (i > 0 ? "\n" : "") + chunkResult.trim();
@@ -428,23 +909,32 @@ export const refineStructureWithInstruction = async (
   instruction: string,
   referenceText: string,
   language: string,
-  onApiCall: (model: string) => void
+  onApiCall: (model: string) => void,
+  onLog?: (message: string) => void,
+  signal?: AbortSignal
 ): Promise<string> => {
-  const model = MODEL_STRICT;
-  const config = { temperature: 0 };
+  const { model, config, timeoutMs } = resolveStep("refinement");
   const prompt =
     getTaskInstructionsForSpecificRefinement(language, instruction, referenceText) +
     `\n\n--- TEXT TO EDIT ---\n${currentText}`;
 
-  onApiCall(model);
   try {
-    const response: GenerateContentResponse = await timeoutPromise(
-      ai.models.generateContent({ model, contents: prompt, config } as any),
-      PRO_TIMEOUT_MS,
-      "TIMEOUT_REFINEMENT"
+    const response = await withRetry(
+      "utility",
+      () => {
+        onApiCall(model);
+        return callModel(
+          { model, contents: prompt, config },
+          timeoutMs,
+          "TIMEOUT_REFINEMENT",
+          signal
+        );
+      },
+      { label: "Refinement", onLog, signal }
     );
     return response.text ?? currentText;
   } catch (error: any) {
+    if (isAbortError(error)) throw error;
     console.error("Refinement error:", error);
     throw new Error(`Refinement failed: ${error.message}`);
   }
@@ -457,27 +947,39 @@ export const chatAboutRefinement = async (
   language: string,
   onApiCall: (model: string) => void,
   useProModel: boolean = true, 
-  imageBase64?: string
+  imageBase64?: string,
+  onLog?: (message: string) => void,
+  signal?: AbortSignal,
+  onPartialText?: (text: string) => void
 ): Promise<{ reply: string; refinedText?: string }> => {
-  const model = useProModel ? MODEL_STRICT : MODEL_FAST;
-  const config = { responseMimeType: "application/json", temperature: 0 };
+  const stepModel = resolveStep(useProModel ? "chatDeep" : "chatFast");
+  const { model, timeoutMs } = stepModel;
+  const config = { ...stepModel.config, responseMimeType: "application/json" };
   
   const textPrompt =
     getTaskInstructionsForConversationalRefinement(language, userMessage, referenceText) +
     `${currentText}\n[TEXT_END]`;
 
-  const contents: any = { parts: [] };
+  const contents: { parts: LlmPart[] } = { parts: [] };
   if (imageBase64) {
       contents.parts.push({ inlineData: { mimeType: 'image/jpeg', data: imageBase64 } });
   }
   contents.parts.push({ text: textPrompt });
 
   try {
-    onApiCall(model);
-    const response: GenerateContentResponse = await timeoutPromise(
-      ai.models.generateContent({ model, contents, config } as any),
-      PRO_TIMEOUT_MS,
-      "TIMEOUT_CHAT_REFINEMENT"
+    const response = await withRetry(
+      "utility",
+      () => {
+        onApiCall(model);
+        return callModel(
+          { model, contents, config },
+          timeoutMs,
+          "TIMEOUT_CHAT_REFINEMENT",
+          signal,
+          onPartialText
+        );
+      },
+      { label: "Chat refinement", onLog, signal }
     );
 
     const rawText = response.text || "{}";
@@ -488,6 +990,7 @@ export const chatAboutRefinement = async (
       refinedText: json.refined_text || undefined,
     };
   } catch (error: any) {
+    if (isAbortError(error)) throw error;
     console.error("Chat Refinement error:", error);
     return { reply: "Sorry, I encountered an error processing your request." };
   }
@@ -496,20 +999,32 @@ export const chatAboutRefinement = async (
 export const linearizeTableFromPdf = async (
   file: File,
   onApiCall: (model: string) => void,
-  onProgress: (progress: { stage: string; percentage: number }) => void
+  onProgress: (progress: { stage: string; percentage: number }) => void,
+  onLog?: (message: string) => void,
+  signal?: AbortSignal,
+  pages?: number[], // 1-based page selection (default: every page)
+  preprocessing?: ImagePreprocessing
 ): Promise<string> => {
   const pdfDocument = await loadPdfDocument(file);
-  const numPages = pdfDocument.numPages;
+  const pageNumbers = (pages ?? Array.from({ length: pdfDocument.numPages }, (_, k) => k + 1)).filter(
+    (n) => n >= 1 && n <= pdfDocument.numPages
+  );
+  const numPages = pageNumbers.length;
   onProgress({ stage: "Loading PDF...", percentage: 0 });
 
-  const model = MODEL_FAST;
-  const imageParts: any[] = [];
+  const { model, config, timeoutMs } = resolveStep("tableLinearization");
+  const imageParts: LlmPart[] = [];
 
   for (let i = 1; i <= numPages; i++) {
+    throwIfAborted(signal);
     onProgress({ stage: `Rendering page ${i}/${numPages}...`, percentage: Math.round((i / numPages) * 50) });
-    const page = await pdfDocument.getPage(i);
-    const base64Data = await renderPageToJpegBase64(page);
-    page.cleanup();
+    const page = await pdfDocument.getPage(pageNumbers[i - 1]);
+    let base64Data: string | null;
+    try {
+      base64Data = await renderPageToJpegBase64(page, undefined, preprocessing);
+    } finally {
+      page.cleanup();
+    }
     if (base64Data) imageParts.push({ inlineData: { mimeType: "image/jpeg", data: base64Data } });
   }
 
@@ -517,32 +1032,29 @@ export const linearizeTableFromPdf = async (
 
   onProgress({ stage: "AI Table Linearization...", percentage: 75 });
 
-  let retries = 3;
-  while (retries > 0) {
-    try {
-      onApiCall(model);
-      const response: GenerateContentResponse = await timeoutPromise(
-        ai.models.generateContent({
-          model,
-          contents: { parts: [{ text: getTableLinearizationPrompt() }, ...imageParts] },
-        } as any),
-        PRO_TIMEOUT_MS,
-        "TIMEOUT_TABLE_LINEARIZATION"
-      );
-      onProgress({ stage: "Done", percentage: 100 });
-      return response.text ?? "";
-    } catch (error: any) {
-      const isTimeout = error.message?.includes("TIMEOUT");
-      const isRateLimit = error.status === 429 || error.message?.includes("429");
-      const isInternal = error.message?.includes("500") || error.status === 500;
-      if ((isInternal || isTimeout || isRateLimit) && retries > 1) {
-        await delay(isRateLimit ? 5000 : 3000);
-        retries--;
-        continue;
-      }
-      return `[ERROR: ${error.message}]`;
-    }
+  try {
+    const response = await withRetry(
+      "tableLinearization",
+      () => {
+        onApiCall(model);
+        return callModel(
+          {
+            model,
+            contents: { parts: [{ text: getTableLinearizationPrompt() }, ...imageParts] },
+            config,
+          },
+          timeoutMs,
+          "TIMEOUT_TABLE_LINEARIZATION",
+          signal
+        );
+      },
+      { label: "Table linearization", onLog, signal }
+    );
+    onProgress({ stage: "Done", percentage: 100 });
+    return response.text ?? "";
+  } catch (error: any) {
+    if (isAbortError(error)) throw error;
+    const kind = error instanceof LlmError ? `${error.kind}: ` : "";
+    return `[ERROR: ${kind}${error.message}]`;
   }
-
-  return "[ERROR: Failed after retries.]";
 };
@@ -0,0 +1,69 @@
+/* =====================================================================================
+   LLM SESSION (RECORD / REPLAY)
+   Swaps the active provider for a recording or replay wrapper and back.
+   While a session is active the response cache is skipped, so a recording captures every
+   exchange and a replay exercises every call.
+===================================================================================== */
+
+import { getLlmProvider, setLlmProvider, LlmProvider } from "./providers/llmProvider";
+import {
+  LlmRecording,
+  RecordingProvider,
+  ReplayOptions,
+  createRecordingProvider,
+  createReplayProvider,
+} from "./providers/recordingProvider";
+
+export type LlmSessionMode = "live" | "recording" | "replay";
+
+let mode: LlmSessionMode = "live";
+let liveProvider: LlmProvider | null = null;
+let recorder: RecordingProvider | null = null;
+
+export const getLlmSessionMode = (): LlmSessionMode => mode;
+
+/** Restores the provider that was active before the session started. */
+const endSession = () => {
+  if (liveProvider) setLlmProvider(liveProvider);
+  liveProvider = null;
+  recorder = null;
+  mode = "live";
+};
+
+export const startRecording = () => {
+  if (mode !== "live") endSession();
+  liveProvider = getLlmProvider();
+  recorder = createRecordingProvider(liveProvider);
+  setLlmProvider(recorder);
+  mode = "recording";
+};
+
+/** Stops recording and returns what was captured (null if no recording was running). */
+export const stopRecording = (): LlmRecording | null => {
+  const recording = mode === "recording" && recorder ? recorder.getRecording() : null;
+  endSession();
+  return recording;
+};
+
+export const startReplay = (recording: LlmRecording, options?: ReplayOptions) => {
+  if (mode !== "live") endSession();
+  liveProvider = getLlmProvider();
+  setLlmProvider(createReplayProvider(recording, options));
+  mode = "replay";
+};
+
+export const stopReplay = () => {
+  if (mode === "replay") endSession();
+};
+
+export const downloadRecording = (recording: LlmRecording) => {
+  const blob = new Blob([JSON.stringify(recording, null, 2)], { type: "application/json" });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = `llm-recording-${recording.createdAt.replace(/[:.]/g, "-")}.json`;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,141 @@
+/* =====================================================================================
+   MODEL REGISTRY
+   Which model and generation settings each pipeline step uses. Defaults reproduce the
+   original flash/pro split; edits are saved to localStorage and survive reloads.
+===================================================================================== */
+
+import type { LlmGenerationConfig } from "./providers/llmProvider";
+
+export const MODEL_FAST = "gemini-flash-lite-latest";
+export const MODEL_STRICT = "gemini-3-pro-preview";
+
+export type ModelStep =
+  | "ocr"
+  | "cleaning"
+  | "step1"
+  | "step1_5"
+  | "step2"
+  | "step3"
+  | "languageDetection"
+  | "jsonTransform"
+  | "comparison"
+  | "refinement"
+  | "chatFast"
+  | "chatDeep"
+  | "tableLinearization"
+  | "verification";
+
+export type StepModelConfig = {
+  model: string;
+  temperature?: number;
+  topK?: number;
+  topP?: number;
+  maxOutputTokens?: number;
+  /** Inactivity window for streamed calls; wall-clock limit for non-streamed ones. */
+  timeoutMs: number;
+  /** Keep this model in every processing mode. Unset: pinned only if the model differs from the default. */
+  pinned?: boolean;
+};
+
+export type ModelRegistry = Record<ModelStep, StepModelConfig>;
+
+export const MODEL_STEP_LABELS: Record<ModelStep, string> = {
+  ocr: "OCR",
+  cleaning: "Text Cleaning",
+  step1: "Step 1: Headlines",
+  step1_5: "Step 1.5: Footnotes",
+  step2: "Step 2: Content",
+  step3: "Step 3: Audit",
+  languageDetection: "Language Detection",
+  jsonTransform: "JSON Transform",
+  comparison: "Reference Comparison",
+  refinement: "Instruction Refinement",
+  chatFast: "Chat (Fast)",
+  chatDeep: "Chat (Deep)",
+  tableLinearization: "Table Linearization",
+  verification: "Verification Pass (Quality)",
+};
+
+const FAST_TIMEOUT_MS = 90_000;
+export const STRICT_TIMEOUT_MS = 480_000;
+
+// Strict steps run greedy so reruns of the same chunk give the same output.
+const fast = (timeoutMs = FAST_TIMEOUT_MS): StepModelConfig => ({ model: MODEL_FAST, timeoutMs });
+const strict = (): StepModelConfig => ({ model: MODEL_STRICT, temperature: 0, topK: 1, topP: 0, timeoutMs: STRICT_TIMEOUT_MS });
+
+export const DEFAULT_MODEL_REGISTRY: ModelRegistry = {
+  ocr: fast(),
+  cleaning: strict(),
+  step1: fast(),
+  step1_5: fast(),
+  step2: fast(),
+  step3: strict(),
+  languageDetection: fast(),
+  jsonTransform: fast(),
+  comparison: { model: MODEL_STRICT, temperature: 0, timeoutMs: STRICT_TIMEOUT_MS },
+  refinement: { model: MODEL_STRICT, temperature: 0, timeoutMs: STRICT_TIMEOUT_MS },
+  chatFast: { model: MODEL_FAST, temperature: 0, timeoutMs: STRICT_TIMEOUT_MS },
+  chatDeep: { model: MODEL_STRICT, temperature: 0, timeoutMs: STRICT_TIMEOUT_MS },
+  tableLinearization: fast(STRICT_TIMEOUT_MS),
+  verification: strict(),
+};
+
+const STORAGE_KEY = "pdf-ocr-model-registry";
+
+const canPersist = () => typeof localStorage !== "undefined";
+
+/** Saved entries over the defaults, so steps added later still get a config. */
+const loadRegistry = (): ModelRegistry => {
+  if (!canPersist()) return { ...DEFAULT_MODEL_REGISTRY };
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "{}") as Partial<ModelRegistry>;
+    const registry = { ...DEFAULT_MODEL_REGISTRY };
+    for (const step of Object.keys(registry) as ModelStep[]) {
+      if (saved[step]?.model) registry[step] = { ...registry[step], ...saved[step] };
+    }
+    return registry;
+  } catch {
+    return { ...DEFAULT_MODEL_REGISTRY };
+  }
+};
+
+let registry: ModelRegistry = loadRegistry();
+
+const saveRegistry = () => {
+  if (!canPersist()) return;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(registry));
+  } catch (err) {
+    console.warn("Could not save model registry", err);
+  }
+};
+
+export const getModelRegistry = (): ModelRegistry => registry;
+
+export const getStepModelConfig = (step: ModelStep): StepModelConfig => registry[step];
+
+/** True when the step keeps its model in every processing mode instead of following the mode's tier. */
+export const isStepModelPinned = (step: ModelStep, config: StepModelConfig = registry[step]): boolean =>
+  config.pinned ?? config.model !== DEFAULT_MODEL_REGISTRY[step].model;
+
+/** Replaces a step's config. Clear an optional field by setting it to undefined. */
+export const setStepModelConfig = (step: ModelStep, config: StepModelConfig) => {
+  registry = { ...registry, [step]: config };
+  saveRegistry();
+};
+
+export const resetModelRegistry = () => {
+  registry = { ...DEFAULT_MODEL_REGISTRY };
+  if (canPersist()) localStorage.removeItem(STORAGE_KEY);
+};
+
+/** Models referenced by the defaults or the current registry, for pickers. */
+export const getKnownModels = (): string[] =>
+  [...new Set([MODEL_FAST, MODEL_STRICT, ...Object.values(registry).map((c) => c.model)])];
+
+export const toGenerationConfig = ({ temperature, topK, topP, maxOutputTokens }: StepModelConfig): LlmGenerationConfig => ({
+  ...(temperature !== undefined && { temperature }),
+  ...(topK !== undefined && { topK }),
+  ...(topP !== undefined && { topP }),
+  ...(maxOutputTokens !== undefined && { maxOutputTokens }),
+});
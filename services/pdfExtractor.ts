@@ -1,5 +1,10 @@
 import * as pdfjs from 'pdfjs-dist';
-import type { PDFDocumentProxy } from 'pdfjs-dist/types/src/display/api';
+import type { PDFDocumentProxy, PDFPageProxy } from 'pdfjs-dist/types/src/display/api';
+import { throwIfAborted } from './retryPolicy';
+import { reconstructPageLayout } from './processors/textLayout';
+import { toStyledLine } from './processors/headlineCandidates';
+import { findFootnoteMarks } from './processors/footnoteMarks';
+import type { ColumnLayout, NativePage } from '../types';
 
 /**
  * Loads a PDF file and returns the PDF.js document object.
@@ -29,49 +34,117 @@ export const getPdfPageCount = async (file: File): Promise<number> => {
 };
 
 
+/** Pages whose text layer has fewer letters than this are treated as scanned and OCR'd. */
+export const MIN_NATIVE_LETTERS_PER_PAGE = 50;
+
+export type NativeExtractionOptions = {
+  /** Rebuild lines, paragraphs and indentation from item positions (default). When false, items are joined with spaces. */
+  preserveLayout?: boolean;
+  /** Column handling for every page (default 'auto': detect columns and read them in order). */
+  columns?: ColumnLayout;
+  /** Per-page overrides of `columns`, keyed by 1-based page number. */
+  pageColumns?: Record<number, ColumnLayout>;
+  /** 1-based pages to extract, ascending (default: every page). */
+  pages?: number[];
+};
+
+const BOLD_FONT_NAME = /bold|black|heavy|semibold|demi/i;
+
+/**
+ * Text items only name their font; its weight is known once the font is loaded. Fonts are
+ * shared across the document, so a font seen on an earlier page is already known, and a
+ * style whose family names the weight ("Arial-BoldMT") needs no font at all. Only a page that
+ * brings in fonts that are neither builds its operator list, which loads them.
+ */
+const loadBoldFontCheck = async (page: PDFPageProxy, styles: Record<string, { fontFamily: string }>): Promise<(fontName: string) => boolean> => {
+  const isResolved = (fontName: string) => page.commonObjs.has(fontName) || BOLD_FONT_NAME.test(styles[fontName]?.fontFamily ?? '');
+  if (!Object.keys(styles).every(isResolved)) await page.getOperatorList();
+  return (fontName: string) => {
+    const font = page.commonObjs.has(fontName) ? page.commonObjs.get(fontName) : null;
+    return !!(font?.bold || font?.black) || BOLD_FONT_NAME.test(font?.name ?? styles[fontName]?.fontFamily ?? fontName);
+  };
+};
+
+/**
+ * Extracts the native text of a single page (no OCR).
+ * @param pdfDocument A document from loadPdfDocument.
+ * @param pageNumber The 1-based page number.
+ * @param options How the text items of the page are put together.
+ */
+export const extractNativePage = async (
+  pdfDocument: PDFDocumentProxy,
+  pageNumber: number,
+  options: NativeExtractionOptions = {}
+): Promise<NativePage> => {
+  const { preserveLayout = true, columns = 'auto', pageColumns = {} } = options;
+  const layout = pageColumns[pageNumber] ?? columns;
+  const page = await pdfDocument.getPage(pageNumber);
+  try {
+    const textContent = await page.getTextContent();
+    if (preserveLayout) {
+      const isBoldFont = await loadBoldFontCheck(page, textContent.styles);
+      const { text, columnCount, lines } = reconstructPageLayout(textContent.items, layout, isBoldFont);
+      return {
+        pageNumber,
+        layout,
+        text,
+        columnCount,
+        lines: lines.map(line => toStyledLine(line, pageNumber)),
+        footnotes: findFootnoteMarks(lines, pageNumber),
+      };
+    }
+    // Join the text items on the page
+    const text = textContent.items
+      .map(item => 'str' in item ? item.str : '')
+      .filter(str => str.trim().length > 0) // Filter out empty strings to avoid double spaces
+      .join(' '); // Join with a single space
+    return { pageNumber, layout, text, columnCount: 1, lines: [], footnotes: [] };
+  } finally {
+    page.cleanup();
+  }
+};
+
 /**
- * Extracts text content from a PDF file using pdf.js.
- * This function runs entirely in the browser, ensuring user privacy.
+ * Extracts the native text of every page (or of `options.pages`) using pdf.js (no OCR).
  * @param file The PDF file to process.
  * @param onProgress A callback function to report extraction progress (0-100).
- * @returns A promise that resolves with the extracted text content.
+ * @param signal Optional AbortSignal; extraction stops before the next page once it fires.
+ * @param options Which pages, and how the text items of a page are put together.
+ * @returns A promise that resolves with one entry per extracted page, in page order.
  */
-export const extractTextFromFile = async (
+export const extractNativePagesFromFile = async (
   file: File,
-  onProgress: (progress: number) => void
-): Promise<string> => {
-  console.log(`Starting real text extraction for: ${file.name}`);
+  onProgress: (progress: number) => void,
+  signal?: AbortSignal,
+  options: NativeExtractionOptions = {}
+): Promise<NativePage[]> => {
   onProgress(0);
 
   // Load the PDF document
   const pdfDocument = await loadPdfDocument(file);
   const numPages = pdfDocument.numPages;
-  const allPagesText: string[] = [];
+  const pageNumbers = (options.pages ?? Array.from({ length: numPages }, (_, k) => k + 1)).filter(n => n >= 1 && n <= numPages);
+  const pages: NativePage[] = [];
 
   // Iterate through each page and extract text
-  for (let i = 1; i <= numPages; i++) {
-    const page = await pdfDocument.getPage(i);
-    const textContent = await page.getTextContent();
-    
-    // Join the text items on the page
-    const pageText = textContent.items
-      .map(item => 'str' in item ? item.str : '')
-      .filter(str => str.trim().length > 0) // Filter out empty strings to avoid double spaces
-      .join(' '); // Join with a single space
-    
-    allPagesText.push(pageText);
+  for (let i = 0; i < pageNumbers.length; i++) {
+    throwIfAborted(signal);
+    pages.push(await extractNativePage(pdfDocument, pageNumbers[i], options));
 
     // Report progress after each page is processed
-    const progress = Math.round((i / numPages) * 100);
+    const progress = Math.round(((i + 1) / pageNumbers.length) * 100);
     onProgress(progress);
   }
 
-  // Join with a clear page break marker to give the AI context
-  const fullText = allPagesText.join('\n\n--- PAGE BREAK ---\n\n');
+  return pages;
+};
 
-  console.log(`Finished text extraction for: ${file.name}`);
-  if (!fullText.trim()) {
-    return "No text could be extracted from this PDF. It might be an image-only PDF, which requires an OCR process not available in this client-side version.";
-  }
-  return fullText.trim();
-};
\ No newline at end of file
+/**
+ * Returns the 1-based numbers of pages without enough native text (image-only or sparse),
+ * which need OCR instead.
+ */
+export const findPagesNeedingOcr = (
+  pages: Pick<NativePage, 'pageNumber' | 'text'>[],
+  minLetters: number = MIN_NATIVE_LETTERS_PER_PAGE
+): number[] =>
+  pages.flatMap(({ pageNumber, text }) => ((text.match(/\p{L}/gu)?.length ?? 0) < minLetters ? [pageNumber] : []));
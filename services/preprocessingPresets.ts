@@ -0,0 +1,85 @@
+/* =====================================================================================
+   PREPROCESSING PRESETS
+   Named sets of image preprocessing for OCR, and the choice made for each document. The
+   choice is saved in localStorage by file name and size, so reopening the same PDF
+   starts from the settings that worked for it.
+===================================================================================== */
+
+import type { ImagePreprocessing, PreprocessingPresetId } from "../types";
+
+export const NO_PREPROCESSING: ImagePreprocessing = {
+  dpi: null,
+  grayscale: false,
+  contrastStretch: false,
+  binarize: false,
+  deskew: false,
+  despeckle: false,
+};
+
+export const PREPROCESSING_PRESETS: Record<Exclude<PreprocessingPresetId, "custom">, { label: string; settings: ImagePreprocessing }> = {
+  none: { label: "None (render as is)", settings: NO_PREPROCESSING },
+  cleanPrint: { label: "Clean print", settings: { ...NO_PREPROCESSING, dpi: 300, grayscale: true } },
+  faintScan: { label: "Faint scan", settings: { ...NO_PREPROCESSING, dpi: 300, grayscale: true, contrastStretch: true } },
+  fax: {
+    label: "Skewed fax / photocopy",
+    settings: { dpi: 300, grayscale: true, contrastStretch: true, binarize: true, deskew: true, despeckle: true },
+  },
+};
+
+export type PreprocessingChoice = { preset: PreprocessingPresetId; settings: ImagePreprocessing };
+
+/** True when the settings change the rendered image at all. */
+export const hasPreprocessing = (settings: ImagePreprocessing): boolean =>
+  (Object.keys(NO_PREPROCESSING) as (keyof ImagePreprocessing)[]).some((key) => settings[key] !== NO_PREPROCESSING[key]);
+
+/** Short summary for the activity log ("300 DPI, grayscale, deskew"). */
+export const describePreprocessing = (settings: ImagePreprocessing): string => {
+  const steps = [
+    settings.dpi ? `${settings.dpi} DPI` : null,
+    settings.grayscale ? "grayscale" : null,
+    settings.contrastStretch ? "contrast stretch" : null,
+    settings.binarize ? "binarize" : null,
+    settings.deskew ? "deskew" : null,
+    settings.despeckle ? "despeckle" : null,
+  ].filter(Boolean);
+  return steps.length ? steps.join(", ") : "none";
+};
+
+/* --- Per-document choice --- */
+
+const STORAGE_KEY = "pdf-ocr-preprocessing";
+// Oldest documents are forgotten beyond this many.
+const MAX_REMEMBERED_DOCUMENTS = 50;
+
+const canPersist = () => typeof localStorage !== "undefined";
+
+const documentKey = (file: File) => `${file.name}:${file.size}`;
+
+const loadAll = (): Record<string, PreprocessingChoice> => {
+  if (!canPersist()) return {};
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "{}");
+  } catch {
+    return {};
+  }
+};
+
+/** The choice saved for this document, or no preprocessing. */
+export const loadDocumentPreprocessing = (file: File): PreprocessingChoice => {
+  const saved = loadAll()[documentKey(file)];
+  return saved ? { preset: saved.preset, settings: { ...NO_PREPROCESSING, ...saved.settings } } : { preset: "none", settings: NO_PREPROCESSING };
+};
+
+export const saveDocumentPreprocessing = (file: File, choice: PreprocessingChoice) => {
+  if (!canPersist()) return;
+  const all = loadAll();
+  delete all[documentKey(file)];
+  all[documentKey(file)] = choice;
+  const keys = Object.keys(all);
+  for (const key of keys.slice(0, Math.max(0, keys.length - MAX_REMEMBERED_DOCUMENTS))) delete all[key];
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(all));
+  } catch (err) {
+    console.warn("Could not save preprocessing settings", err);
+  }
+};
@@ -0,0 +1,79 @@
+/* =====================================================================================
+   PROCESSING POLICY
+   What FAST and QUALITY mode actually change: model tier, chunk sizes, parallelism,
+   per-chunk guards and the verification pass.
+===================================================================================== */
+
+import { ProcessingMode } from "../types";
+import { MODEL_FAST, MODEL_STRICT, ModelStep, STRICT_TIMEOUT_MS } from "./modelRegistry";
+import {
+  guardCleaningOutput,
+  guardStep3ConservativeOutput,
+  guardTaggingPreservesText,
+} from "./processors/structureUtils";
+
+export type ProcessingPolicy = {
+  label: string;
+  /**
+   * Model for OCR and the chunked steps. A step whose model is pinned in the registry keeps
+   * its own model; generation settings always come from the registry.
+   */
+  model: string;
+  /** Floor for the step timeout, so a slower model tier isn't cut off by a flash-sized limit. */
+  minTimeoutMs: number;
+  /** Multiplier on each step's base chunk size. */
+  chunkSizeFactor: number;
+  /** Parallel requests applied when the mode is selected (still adjustable per step). */
+  concurrency: number;
+  /** Validate every chunk with its step's guard; failures are retried like any VALIDATION error. */
+  guardEveryStep: boolean;
+  /** Ask the verification model to confirm each chunk output before accepting it. */
+  verificationPass: boolean;
+};
+
+export const PROCESSING_POLICIES: Record<ProcessingMode, ProcessingPolicy> = {
+  [ProcessingMode.FAST]: {
+    label: "Fast",
+    model: MODEL_FAST,
+    minTimeoutMs: 0,
+    chunkSizeFactor: 1.25,
+    concurrency: 8,
+    guardEveryStep: false,
+    verificationPass: false,
+  },
+  [ProcessingMode.QUALITY]: {
+    label: "Quality",
+    model: MODEL_STRICT,
+    minTimeoutMs: STRICT_TIMEOUT_MS,
+    chunkSizeFactor: 0.5,
+    concurrency: 4,
+    guardEveryStep: true,
+    verificationPass: true,
+  },
+};
+
+export const getProcessingPolicy = (mode: ProcessingMode): ProcessingPolicy => PROCESSING_POLICIES[mode];
+
+/** Steps the mode's model tier applies to. Utility calls (chat, detection, ...) stay on the registry. */
+export const MODE_CONTROLLED_STEPS: ModelStep[] = ["ocr", "cleaning", "step1", "step1_5", "step2", "step3"];
+
+const guardStep3 = (input: string, output: string) => {
+  const { issues } = guardStep3ConservativeOutput(input, output);
+  if (issues.length > 0) throw new Error(issues.join(" | "));
+};
+
+/** Guard run on every chunk of a step when the policy asks for it. */
+export const STEP_GUARDS: Partial<Record<ModelStep, (input: string, output: string) => void>> = {
+  cleaning: guardCleaningOutput,
+  step1: guardTaggingPreservesText,
+  step1_5: guardTaggingPreservesText,
+  step2: guardTaggingPreservesText,
+  step3: guardStep3,
+};
+
+/** One-line description for logs and reports. */
+export const describeProcessingPolicy = (mode: ProcessingMode): string => {
+  const policy = getProcessingPolicy(mode);
+  const checks = [policy.guardEveryStep && "guards on every chunk", policy.verificationPass && "verification pass"].filter(Boolean);
+  return `${policy.label} mode (${policy.model}, chunks ×${policy.chunkSizeFactor}, ${policy.concurrency} parallel${checks.length ? `, ${checks.join(", ")}` : ""})`;
+};
@@ -0,0 +1,144 @@
+/* =====================================================================================
+   FOOTNOTE MARKS
+   Finds footnotes from typography instead of guessing: reference numbers are numerals set
+   smaller and above the baseline of their line, and notes are the smaller-font lines at the
+   bottom of a page that start with a number. The marks can tag the text directly or be
+   passed to Step 1.5 as hints.
+===================================================================================== */
+
+import type { FootnoteMark } from "../../types";
+import { joinLineItems, LayoutLine } from "./textLayout";
+
+// A superscript is at most this fraction of the line's main size and raised by at least this fraction of it.
+const SUPERSCRIPT_MAX_SIZE = 0.8;
+const SUPERSCRIPT_MIN_RAISE = 0.15;
+// Footnote block lines are set at most this fraction of the page's body size.
+const FOOTNOTE_MAX_SIZE = 0.9;
+// Characters of preceding text kept to find a reference again in the document text.
+const REFERENCE_CONTEXT_CHARS = 24;
+// Characters of a note's first and last line kept to find it again.
+const NOTE_ANCHOR_CHARS = 40;
+
+const REFERENCE_NUMBER = /^\d{1,3}$/;
+const NOTE_START = /^(\d{1,3})[.)]?\s+\S/;
+
+const normalize = (text: string) => text.replace(/\s+/g, " ").trim();
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/** Size with the most characters, rounded to half points. */
+const dominantSize = (lines: LayoutLine[]): number => {
+  const chars = new Map<number, number>();
+  for (const item of lines.flatMap((l) => l.items)) {
+    const size = Math.round(item.height * 2) / 2;
+    chars.set(size, (chars.get(size) ?? 0) + item.str.length);
+  }
+  return [...chars.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] ?? 0;
+};
+
+/** Index of the raised, smaller numeral items in a line. */
+const superscriptIndices = (line: LayoutLine): number[] => {
+  const size = dominantSize([line]);
+  const baselineItems = line.items.filter((i) => i.height >= size * FOOTNOTE_MAX_SIZE);
+  if (size === 0 || baselineItems.length === 0) return [];
+  const baseline = baselineItems.map((i) => i.y).sort((a, b) => a - b)[Math.floor(baselineItems.length / 2)];
+  return line.items.flatMap((item, i) =>
+    REFERENCE_NUMBER.test(item.str.trim()) &&
+    item.height <= size * SUPERSCRIPT_MAX_SIZE &&
+    item.y - baseline >= size * SUPERSCRIPT_MIN_RAISE
+      ? [i]
+      : []
+  );
+};
+
+/** Lines (indices in reading order) of the smaller-font block at the bottom of the page. */
+const footnoteBlock = (lines: LayoutLine[]): Set<number> => {
+  const bodySize = dominantSize(lines);
+  const bottomUp = lines.map((line, i) => ({ line, i })).sort((a, b) => a.line.y - b.line.y);
+  const block = new Set<number>();
+  for (const { line, i } of bottomUp) {
+    if (REFERENCE_NUMBER.test(normalize(line.text))) continue; // page number below the notes
+    if (dominantSize([line]) > bodySize * FOOTNOTE_MAX_SIZE) break;
+    block.add(i);
+  }
+  return block;
+};
+
+/**
+ * Footnote references and notes on one page, in reading order (`lines` as returned by
+ * reconstructPageLayout).
+ */
+export const findFootnoteMarks = (lines: LayoutLine[], pageNumber: number): FootnoteMark[] => {
+  const block = footnoteBlock(lines);
+  const marks: FootnoteMark[] = [];
+  let note: Extract<FootnoteMark, { kind: "note" }> | null = null;
+
+  lines.forEach((line, index) => {
+    const superscripts = superscriptIndices(line);
+
+    if (!block.has(index)) {
+      for (const i of superscripts) {
+        const context = normalize(joinLineItems(line.items.slice(0, i))).slice(-REFERENCE_CONTEXT_CHARS);
+        if (context) marks.push({ kind: "reference", pageNumber, number: line.items[i].str.trim(), context });
+      }
+      return;
+    }
+
+    const text = normalize(line.text);
+    const start = superscripts.includes(0) ? line.items[0].str.trim() : text.match(NOTE_START)?.[1];
+    if (start) {
+      note = { kind: "note", pageNumber, number: start, firstLine: text.slice(0, NOTE_ANCHOR_CHARS), lastLine: text.slice(-NOTE_ANCHOR_CHARS) };
+      marks.push(note);
+    } else if (note && !REFERENCE_NUMBER.test(text)) {
+      // Continuation line; a bare number is the page number, not part of the note.
+      note.lastLine = text.slice(-NOTE_ANCHOR_CHARS);
+    }
+  });
+  return marks;
+};
+
+/**
+ * Tags the marks in the text with `{{footnotenumberX}}` / `{{footnoteX}}` without a model.
+ * Marks are searched in order from the previous match on, so each is placed once; a mark
+ * whose text was changed by earlier steps is skipped.
+ */
+export const applyFootnoteMarks = (text: string, marks: FootnoteMark[]): { text: string; references: number; notes: number } => {
+  let result = text;
+  let cursor = 0;
+  let references = 0;
+  let notes = 0;
+
+  for (const mark of marks) {
+    if (mark.kind === "reference") {
+      const re = new RegExp(`${escapeRegExp(mark.context).replace(/ /g, "\\s+")}(\\s?)${mark.number}(?!\\d)`, "g");
+      re.lastIndex = cursor;
+      const match = re.exec(result);
+      if (!match) continue;
+      const numberAt = match.index + match[0].length - mark.number.length;
+      const tag = `{{footnotenumber${mark.number}}}${mark.number}{{-footnotenumber${mark.number}}}`;
+      result = result.slice(0, numberAt) + tag + result.slice(numberAt + mark.number.length);
+      cursor = numberAt + tag.length;
+      references++;
+    } else {
+      const start = result.indexOf(mark.firstLine, cursor);
+      if (start === -1) continue;
+      const lastAt = result.indexOf(mark.lastLine, start);
+      const end = lastAt === -1 ? start + mark.firstLine.length : lastAt + mark.lastLine.length;
+      const wrapped = `{{footnote${mark.number}}}${result.slice(start, end)}{{-footnote${mark.number}}}`;
+      result = result.slice(0, start) + wrapped + result.slice(end);
+      cursor = start + wrapped.length;
+      notes++;
+    }
+  }
+  return { text: result, references, notes };
+};
+
+/** Marks whose text occurs in `chunk`, as prompt lines. */
+export const formatFootnoteHints = (marks: FootnoteMark[], chunk: string): string[] => {
+  const chunkText = normalize(chunk);
+  return marks.flatMap((mark) => {
+    if (mark.kind === "reference") {
+      return chunkText.includes(mark.context) ? [`reference ${mark.number} after: "${mark.context}"`] : [];
+    }
+    return chunkText.includes(normalize(mark.firstLine)) ? [`footnote ${mark.number} starts: "${mark.firstLine}"`] : [];
+  });
+};
@@ -0,0 +1,133 @@
+/* =====================================================================================
+   HEADLINE CANDIDATES
+   Proposes headlines from typography. Every native line is described by its font size,
+   weight and case; the styles that stand out from body text are ranked into tiers, and a
+   line's tier becomes its proposed level. Used as Step 1 hints or applied directly.
+===================================================================================== */
+
+import type { HeadlineCandidate, StyledLine } from "../../types";
+import type { LayoutLine } from "./textLayout";
+
+// Longer lines are body text whatever their font.
+const MAX_HEADLINE_CHARS = 150;
+const MAX_HEADLINE_WORDS = 20;
+// A style covering more than this share of the lines is a body variant, not a headline tier.
+const MAX_TIER_SHARE = 0.15;
+// Size ratio to the body size that counts as larger.
+const LARGER_FONT_RATIO = 1.08;
+// All-caps needs this many letters to count, so short acronyms stay body text.
+const MIN_CAPS_LETTERS = 4;
+const MAX_LEVELS = 6;
+
+const normalize = (text: string) => text.replace(/\s+/g, " ").trim();
+
+/** Describes a layout line by the style of the most characters in it. */
+export const toStyledLine = (line: LayoutLine, pageNumber: number): StyledLine => {
+  const charsBySize = new Map<number, number>();
+  let boldChars = 0;
+  let chars = 0;
+  for (const item of line.items) {
+    const size = Math.round(item.height * 2) / 2;
+    charsBySize.set(size, (charsBySize.get(size) ?? 0) + item.str.length);
+    if (item.bold) boldChars += item.str.length;
+    chars += item.str.length;
+  }
+  const fontSize = [...charsBySize.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] ?? 0;
+  const letters = line.text.match(/\p{L}/gu) ?? [];
+  return {
+    pageNumber,
+    text: normalize(line.text),
+    fontSize,
+    bold: chars > 0 && boldChars / chars > 0.5,
+    caps: letters.length >= MIN_CAPS_LETTERS && letters.every((l) => l === l.toUpperCase() && l !== l.toLowerCase()),
+  };
+};
+
+const styleKey = (line: StyledLine) => `${line.fontSize}|${line.bold}|${line.caps}`;
+
+const looksLikeHeadline = (line: StyledLine) =>
+  line.text.length <= MAX_HEADLINE_CHARS &&
+  line.text.split(" ").length <= MAX_HEADLINE_WORDS &&
+  !/[,;]$/.test(line.text) &&
+  (line.text.match(/\p{L}/gu)?.length ?? 0) >= 2;
+
+/**
+ * Ranks the styles that stand out from body text (larger, bolder or all-caps) and returns
+ * the lines in those styles, in document order, with level 1 for the most prominent tier.
+ */
+export const findHeadlineCandidates = (lines: StyledLine[]): HeadlineCandidate[] => {
+  if (lines.length === 0) return [];
+
+  const charsByStyle = new Map<string, number>();
+  const linesByStyle = new Map<string, number>();
+  for (const line of lines) {
+    const key = styleKey(line);
+    charsByStyle.set(key, (charsByStyle.get(key) ?? 0) + line.text.length);
+    linesByStyle.set(key, (linesByStyle.get(key) ?? 0) + 1);
+  }
+  const bodyKey = [...charsByStyle.entries()].sort((a, b) => b[1] - a[1])[0][0];
+  const body = lines.find((line) => styleKey(line) === bodyKey)!;
+
+  const standsOut = (line: StyledLine) =>
+    line.fontSize >= body.fontSize * LARGER_FONT_RATIO ||
+    (line.fontSize >= body.fontSize && ((line.bold && !body.bold) || (line.caps && !body.caps)));
+
+  const tiers = new Map<string, StyledLine>();
+  for (const line of lines) {
+    const key = styleKey(line);
+    if (key === bodyKey || tiers.has(key) || !standsOut(line)) continue;
+    if (linesByStyle.get(key)! / lines.length > MAX_TIER_SHARE) continue;
+    tiers.set(key, line);
+  }
+
+  const ranked = [...tiers.entries()]
+    .sort(([, a], [, b]) => b.fontSize - a.fontSize || Number(b.bold) - Number(a.bold) || Number(b.caps) - Number(a.caps))
+    .map(([key]) => key);
+  const levelOf = new Map(ranked.map((key, i) => [key, Math.min(i + 1, MAX_LEVELS)]));
+
+  return lines.flatMap((line) => {
+    const level = levelOf.get(styleKey(line));
+    return level && looksLikeHeadline(line) ? [{ ...line, level }] : [];
+  });
+};
+
+/** Candidates whose text occurs in `chunk`, as prompt lines ("level2: Chapter I"). */
+export const formatHeadlineHints = (candidates: HeadlineCandidate[], chunk: string): string[] => {
+  const chunkText = normalize(chunk);
+  return candidates.filter((c) => chunkText.includes(c.text)).map((c) => `level${c.level}: ${c.text}`);
+};
+
+/**
+ * Tags lines matching a candidate with `{{levelN}}...{{-levelN}}` without a model. Adjacent
+ * candidate lines of the same level ("CHAPTER 12" / "DIGITAL TRADE") are merged into one
+ * headline, as Step 1 does. Lines that already carry tags are left alone.
+ */
+export const applyHeadlineCandidates = (text: string, candidates: HeadlineCandidate[]): { text: string; tagged: number } => {
+  const levelByText = new Map<string, number>();
+  for (const c of candidates) if (!levelByText.has(c.text)) levelByText.set(c.text, c.level);
+
+  const out: string[] = [];
+  let tagged = 0;
+  let open: { level: number; text: string } | null = null;
+  const close = () => {
+    if (open) out.push(`{{level${open.level}}}${open.text}{{-level${open.level}}}`);
+    open = null;
+  };
+
+  for (const line of text.split("\n")) {
+    const trimmed = normalize(line);
+    const level = trimmed.includes("{{") ? undefined : levelByText.get(trimmed);
+    if (level === undefined) {
+      close();
+      out.push(line);
+    } else if (open && open.level === level) {
+      open.text += ` ${trimmed}`;
+    } else {
+      close();
+      open = { level, text: trimmed };
+      tagged++;
+    }
+  }
+  close();
+  return { text: out.join("\n"), tagged };
+};
@@ -0,0 +1,150 @@
+/* =====================================================================================
+   IMAGE PREPROCESSING
+   Pixel operations run on a rendered page before it is sent to OCR: grayscale, contrast
+   stretch, Otsu binarization, despeckle and skew estimation. They work on plain gray
+   buffers so they stay independent of the canvas; imageUtils applies them to a page.
+===================================================================================== */
+
+/** One byte of luminance per pixel, row by row. */
+export type GrayImage = { data: Uint8ClampedArray; width: number; height: number };
+
+// PDF user space is 72 units per inch, so scale = dpi / 72.
+const PDF_UNITS_PER_INCH = 72;
+// Longest rendered edge in pixels; large pages get a lower DPI instead of a huge canvas.
+const MAX_RENDER_EDGE = 4200;
+// Contrast stretch maps these percentiles of the histogram to black and white.
+const STRETCH_LOW_PERCENTILE = 0.01;
+const STRETCH_HIGH_PERCENTILE = 0.99;
+// Deskew searches this range of angles (degrees) at this step, and ignores smaller corrections.
+const MAX_SKEW_DEGREES = 5;
+const SKEW_STEP_DEGREES = 0.2;
+const MIN_SKEW_DEGREES = 0.2;
+// Skew is estimated on about this many dark pixels.
+const SKEW_SAMPLE_PIXELS = 60000;
+
+/** Render scale that gives `dpi` for a page of the given size (in PDF units), capped at MAX_RENDER_EDGE. */
+export const renderScaleForDpi = (pageWidth: number, pageHeight: number, dpi: number): number => {
+  const scale = dpi / PDF_UNITS_PER_INCH;
+  return Math.min(scale, MAX_RENDER_EDGE / Math.max(pageWidth, pageHeight));
+};
+
+/* --- Gray buffers --- */
+
+export const toGray = (rgba: Uint8ClampedArray, width: number, height: number): GrayImage => {
+  const data = new Uint8ClampedArray(width * height);
+  for (let p = 0, i = 0; p < data.length; p++, i += 4) {
+    data[p] = 0.299 * rgba[i] + 0.587 * rgba[i + 1] + 0.114 * rgba[i + 2];
+  }
+  return { data, width, height };
+};
+
+/** Writes gray values back into an RGBA buffer of the same size (alpha untouched). */
+export const writeGray = (image: GrayImage, rgba: Uint8ClampedArray) => {
+  for (let p = 0, i = 0; p < image.data.length; p++, i += 4) {
+    rgba[i] = rgba[i + 1] = rgba[i + 2] = image.data[p];
+  }
+};
+
+const histogram = (image: GrayImage): number[] => {
+  const counts = new Array(256).fill(0);
+  for (const v of image.data) counts[v]++;
+  return counts;
+};
+
+/* --- Operations (in place) --- */
+
+/** Spreads the 1st..99th percentile of gray values over the full range, so faint print gets dark. */
+export const stretchContrast = (image: GrayImage) => {
+  const counts = histogram(image);
+  const percentile = (share: number) => {
+    let seen = 0;
+    for (let v = 0; v < 256; v++) {
+      seen += counts[v];
+      if (seen >= share * image.data.length) return v;
+    }
+    return 255;
+  };
+  const low = percentile(STRETCH_LOW_PERCENTILE);
+  const high = percentile(STRETCH_HIGH_PERCENTILE);
+  if (high - low < 2) return;
+  const range = high - low;
+  for (let p = 0; p < image.data.length; p++) image.data[p] = ((image.data[p] - low) * 255) / range;
+};
+
+/** Otsu's threshold: the gray value that best separates ink from background. */
+export const otsuThreshold = (image: GrayImage): number => {
+  const counts = histogram(image);
+  const total = image.data.length;
+  const sumAll = counts.reduce((acc, c, v) => acc + c * v, 0);
+  let sumBelow = 0;
+  let countBelow = 0;
+  let best = { threshold: 128, variance: -1 };
+  for (let t = 0; t < 256; t++) {
+    countBelow += counts[t];
+    sumBelow += counts[t] * t;
+    const countAbove = total - countBelow;
+    if (countBelow === 0 || countAbove === 0) continue;
+    const meanDiff = sumBelow / countBelow - (sumAll - sumBelow) / countAbove;
+    const variance = countBelow * countAbove * meanDiff * meanDiff;
+    if (variance > best.variance) best = { threshold: t, variance };
+  }
+  return best.threshold;
+};
+
+/** Pure black and white: pixels at or below `threshold` become ink. */
+export const binarize = (image: GrayImage, threshold: number = otsuThreshold(image)) => {
+  for (let p = 0; p < image.data.length; p++) image.data[p] = image.data[p] <= threshold ? 0 : 255;
+};
+
+/** Whitens isolated dark pixels (at most one dark neighbour), the dust and noise of scans and faxes. */
+export const despeckle = (image: GrayImage, threshold: number = 128) => {
+  const { data, width, height } = image;
+  const dark = (x: number, y: number) => x >= 0 && y >= 0 && x < width && y < height && data[y * width + x] < threshold;
+  const specks: number[] = [];
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (!dark(x, y)) continue;
+      let neighbours = 0;
+      for (let dy = -1; dy <= 1 && neighbours < 2; dy++) {
+        for (let dx = -1; dx <= 1; dx++) if ((dx || dy) && dark(x + dx, y + dy)) neighbours++;
+      }
+      if (neighbours <= 1) specks.push(y * width + x);
+    }
+  }
+  for (const p of specks) data[p] = 255;
+};
+
+/* --- Skew --- */
+
+/**
+ * Angle (degrees) of the text lines: rows of ink line up best when projected at this angle.
+ * Positive means lines run down to the right. Returns 0 below MIN_SKEW_DEGREES.
+ */
+export const estimateSkewAngle = (image: GrayImage): number => {
+  const threshold = otsuThreshold(image);
+  const points: number[] = [];
+  let darkCount = 0;
+  for (const v of image.data) if (v <= threshold) darkCount++;
+  const stride = Math.max(1, Math.floor(darkCount / SKEW_SAMPLE_PIXELS));
+  let seen = 0;
+  for (let p = 0; p < image.data.length; p++) {
+    if (image.data[p] > threshold || seen++ % stride) continue;
+    points.push(p % image.width, Math.floor(p / image.width));
+  }
+  if (points.length === 0) return 0;
+
+  const offset = image.width;
+  const bins = new Float64Array(image.height + 2 * offset);
+  let best = { angle: 0, score: -1 };
+  for (let degrees = -MAX_SKEW_DEGREES; degrees <= MAX_SKEW_DEGREES + 1e-9; degrees += SKEW_STEP_DEGREES) {
+    const radians = (degrees * Math.PI) / 180;
+    const cos = Math.cos(radians);
+    const sin = Math.sin(radians);
+    bins.fill(0);
+    for (let k = 0; k < points.length; k += 2) bins[Math.round(points[k + 1] * cos - points[k] * sin) + offset]++;
+    let score = 0;
+    for (const count of bins) score += count * count;
+    if (score > best.score) best = { angle: degrees, score };
+  }
+  return Math.abs(best.angle) < MIN_SKEW_DEGREES ? 0 : Math.round(best.angle * 10) / 10;
+};
@@ -1,13 +1,21 @@
-
 import * as pdfjs from "pdfjs-dist";
+import type { ImagePreprocessing } from "../../types";
+import { binarize, despeckle, estimateSkewAngle, otsuThreshold, renderScaleForDpi, stretchContrast, toGray, writeGray } from "./imagePreprocessing";
 
 /**
  * Renders a PDF page to a Base64 JPEG string.
- * Used for vision-based OCR.
+ * Used for vision-based OCR (default scale) and page thumbnails (small scale).
+ * With `preprocessing`, its DPI replaces `scale` and the image is cleaned up before encoding.
  */
-export const renderPageToJpegBase64 = async (page: pdfjs.PDFPageProxy): Promise<string | null> => {
-  const viewport = page.getViewport({ scale: 2.5 });
-  const canvas = document.createElement("canvas");
+export const renderPageToJpegBase64 = async (
+  page: pdfjs.PDFPageProxy,
+  scale: number = 2.5,
+  preprocessing?: ImagePreprocessing
+): Promise<string | null> => {
+  const baseViewport = page.getViewport({ scale: 1 });
+  const renderScale = preprocessing?.dpi ? renderScaleForDpi(baseViewport.width, baseViewport.height, preprocessing.dpi) : scale;
+  const viewport = page.getViewport({ scale: renderScale });
+  let canvas = document.createElement("canvas");
   const context = canvas.getContext("2d");
   if (!context) return null;
 
@@ -15,7 +23,83 @@ export const renderPageToJpegBase64 = async (page: pdfjs.PDFPageProxy): Promise<
   canvas.width = viewport.width;
 
   await page.render({ canvasContext: context, viewport } as any).promise;
+  if (preprocessing) canvas = preprocessCanvas(canvas, preprocessing) ?? canvas;
 
   const dataUrl = canvas.toDataURL("image/jpeg", 0.9);
   return dataUrl.split(",")[1];
 };
+
+/**
+ * Applies the preprocessing chain to a rendered page: deskew first (it interpolates), then
+ * the gray-value steps. Contrast stretch, binarization and despeckle work on gray values, so
+ * any of them also makes the image grayscale. Returns the canvas to encode, null on failure.
+ */
+const preprocessCanvas = (source: HTMLCanvasElement, settings: ImagePreprocessing): HTMLCanvasElement | null => {
+  let canvas = source;
+  let context = canvas.getContext("2d");
+  if (!context) return null;
+  const { width, height } = canvas;
+
+  if (settings.deskew) {
+    const angle = estimateSkewAngle(toGray(context.getImageData(0, 0, width, height).data, width, height));
+    if (angle !== 0) {
+      const rotated = document.createElement("canvas");
+      rotated.width = width;
+      rotated.height = height;
+      const rotatedContext = rotated.getContext("2d");
+      if (!rotatedContext) return null;
+      rotatedContext.fillStyle = "#ffffff";
+      rotatedContext.fillRect(0, 0, width, height);
+      rotatedContext.translate(width / 2, height / 2);
+      rotatedContext.rotate((-angle * Math.PI) / 180);
+      rotatedContext.drawImage(canvas, -width / 2, -height / 2);
+      canvas = rotated;
+      context = rotatedContext;
+    }
+  }
+
+  if (settings.grayscale || settings.contrastStretch || settings.binarize || settings.despeckle) {
+    const imageData = context.getImageData(0, 0, width, height);
+    const gray = toGray(imageData.data, width, height);
+    if (settings.contrastStretch) stretchContrast(gray);
+    const threshold = otsuThreshold(gray);
+    if (settings.binarize) binarize(gray, threshold);
+    if (settings.despeckle) despeckle(gray, threshold + 1);
+    writeGray(gray, imageData.data);
+    context.putImageData(imageData, 0, 0);
+  }
+  return canvas;
+};
+
+// Images are measured at this width; enough to estimate ink, cheap to scan.
+const INK_SAMPLE_WIDTH = 300;
+
+/**
+ * Share of dark pixels (luminance below 128) in a Base64 JPEG page image, or null if the
+ * image cannot be decoded.
+ */
+export const measureInkDensity = async (imageBase64: string): Promise<number | null> => {
+  if (!imageBase64) return null;
+  const image = new Image();
+  image.src = `data:image/jpeg;base64,${imageBase64}`;
+  try {
+    await image.decode();
+  } catch {
+    return null;
+  }
+
+  const scale = Math.min(1, INK_SAMPLE_WIDTH / image.naturalWidth);
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, Math.round(image.naturalWidth * scale));
+  canvas.height = Math.max(1, Math.round(image.naturalHeight * scale));
+  const context = canvas.getContext("2d");
+  if (!context) return null;
+  context.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+  const { data } = context.getImageData(0, 0, canvas.width, canvas.height);
+  let dark = 0;
+  for (let i = 0; i < data.length; i += 4) {
+    if (0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2] < 128) dark++;
+  }
+  return dark / (data.length / 4);
+};
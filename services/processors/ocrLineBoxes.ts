@@ -0,0 +1,87 @@
+/* =====================================================================================
+   OCR LINE BOXES
+   The OCR prompt can ask the model to start every line with its bounding box,
+   "[ymin, xmin, ymax, xmax] text", in 0..1000 image coordinates. The boxes are split off
+   here so the page text stays plain, and kept per line so the reviewer can link lines of
+   text to their region on the page image, even after the text is edited.
+===================================================================================== */
+
+import type { OcrLineBox } from "../../types";
+import { generateDiff } from "../diffService";
+
+const LINE_BOX_PREFIX = /^\s*\[\s*(\d{1,4})\s*,\s*(\d{1,4})\s*,\s*(\d{1,4})\s*,\s*(\d{1,4})\s*\] ?/;
+// Models answer in 0..1000 coordinates.
+const BOX_SCALE = 1000;
+
+/**
+ * Splits model output into plain text and the boxes of its lines. Lines without a (valid)
+ * box keep their text and get no box, so output that ignored the instruction passes unchanged.
+ */
+export const parseOcrLineBoxes = (raw: string): { text: string; lineBoxes: OcrLineBox[] } => {
+  const lineBoxes: OcrLineBox[] = [];
+  const lines = raw.split("\n").map((line, index) => {
+    const m = line.match(LINE_BOX_PREFIX);
+    if (!m) return line;
+    const [top, left, bottom, right] = m.slice(1, 5).map((v) => Math.min(1, Number(v) / BOX_SCALE));
+    if (bottom > top && right > left) lineBoxes.push({ line: index, top, left, bottom, right });
+    return line.slice(m[0].length);
+  });
+  return { text: lines.join("\n"), lineBoxes };
+};
+
+/** Drops the box prefixes from (possibly partial) model output, for live display, including a box still being streamed. */
+export const stripLineBoxes = (raw: string): string =>
+  raw
+    .split("\n")
+    .map((line) => line.replace(LINE_BOX_PREFIX, ""))
+    .join("\n")
+    .replace(/(^|\n)[ \t]*\[[\d,\s]*$/, "$1");
+
+/**
+ * Moves boxes from the lines of `originalText` to the same lines of `editedText`. Unchanged
+ * lines keep their box; within a changed block, removed and added lines are paired in order,
+ * so a corrected line keeps the box of the line it replaced.
+ */
+export const remapLineBoxes = (lineBoxes: OcrLineBox[], originalText: string, editedText: string): OcrLineBox[] => {
+  if (lineBoxes.length === 0 || originalText === editedText) return lineBoxes;
+  const boxByLine = new Map(lineBoxes.map((box) => [box.line, box]));
+  const remapped: OcrLineBox[] = [];
+  let oldLine = 0;
+  let newLine = 0;
+  let removed: number[] = [];
+  let added: number[] = [];
+
+  const flush = () => {
+    added.forEach((line, k) => {
+      const box = k < removed.length ? boxByLine.get(removed[k]) : undefined;
+      if (box) remapped.push({ ...box, line });
+    });
+    removed = [];
+    added = [];
+  };
+
+  for (const entry of generateDiff(originalText, editedText)) {
+    if (entry.type === "removed") removed.push(oldLine++);
+    else if (entry.type === "added") added.push(newLine++);
+    else {
+      flush();
+      const box = boxByLine.get(oldLine);
+      if (box) remapped.push({ ...box, line: newLine });
+      oldLine++;
+      newLine++;
+    }
+  }
+  flush();
+  return remapped;
+};
+
+/**
+ * Line under a point of the image (fractions of its size): the box containing it, else the
+ * box whose vertical band contains it, closest horizontally. Null when no box is in that band.
+ */
+export const lineAtPoint = (lineBoxes: OcrLineBox[], x: number, y: number): number | null => {
+  const inBand = lineBoxes.filter((box) => y >= box.top && y <= box.bottom);
+  if (inBand.length === 0) return null;
+  const distance = (box: OcrLineBox) => (x < box.left ? box.left - x : x > box.right ? x - box.right : 0);
+  return inBand.reduce((best, box) => (distance(box) < distance(best) ? box : best)).line;
+};
@@ -0,0 +1,132 @@
+/* =====================================================================================
+   OCR QUALITY
+   Scores each OCR'd page from 0 to 100 so review can start with the pages most likely to
+   be wrong. Signals: share of common words of the document language, share of stray
+   symbols, text length against the ink on the page image (calibrated per document), and
+   the `[ERROR` marker left by a failed page.
+===================================================================================== */
+
+import type { OcrQuality } from "../../types";
+
+// Pages scoring below this are flagged as low confidence.
+export const LOW_CONFIDENCE_SCORE = 60;
+
+// Real text in these languages has at least this share of common words; lower shares score proportionally.
+const EXPECTED_COMMON_WORD_SHARE = 0.2;
+// Fewer words than this say nothing about the dictionary hit rate.
+const MIN_WORDS = 20;
+// A stray-symbol share at or above this scores 0.
+const MAX_GARBAGE_SHARE = 0.08;
+// Pages with less ink than this share of pixels count as blank.
+const MIN_INK_DENSITY = 0.002;
+// Characters per ink unit may differ from the document median by this factor before the score drops.
+const LENGTH_TOLERANCE = 1.6;
+// Fewer measured pages than this cannot calibrate characters per ink unit.
+const MIN_CALIBRATION_PAGES = 3;
+
+const WEIGHTS = { dictionary: 0.35, garbage: 0.35, lengthVsInk: 0.3 };
+
+/* --- Common words --- */
+
+// The most frequent words of each language (by SUPPORTED_LANGUAGES name). Languages written
+// without spaces between words have no list, so their pages skip this signal.
+const COMMON_WORDS: Record<string, string[]> = {
+  English: "the of and to in a is that for on with as by be this are or it from at which shall not an any such its have has was were may other all under their these been will than into if no each".split(" "),
+  Português: "de a o que e do da em um para é com não uma os no se na por mais as dos como mas ao das à pelo pela ou ser nos sua seu sobre este esta quando também art lei".split(" "),
+  Español: "de la que el en y a los del se las por un para con no una su al lo como más o pero sus le ha este esta sobre entre cuando también ser son artículo ley".split(" "),
+  Français: "de la le et les des en du un une à est que qui dans pour par pas au sur se ne il aux plus ou son sa ses cette ce sont être avec été leur article".split(" "),
+  Deutsch: "der die und in den von zu das mit sich des auf für ist im dem nicht ein eine als auch es an werden aus er hat dass sie nach wird bei einer um oder durch sind kann".split(" "),
+  "العربية (Arabic)": "في من على أن إلى التي الذي عن ما لا هذا هذه أو مع كان قد بين كل ذلك تم عند إذا أي غير حيث وفقا المادة".split(" "),
+  "Русский (Russian)": "и в не на что с по к о из от для за как или а же это его при до быть он она они так но только также который которые статья".split(" "),
+};
+
+const commonWordSet = new Map(Object.entries(COMMON_WORDS).map(([language, words]) => [language, new Set(words)]));
+
+/* --- Signals --- */
+
+/** Share of words that are common words of the language, scaled to 0..1; null when it cannot be judged. */
+const dictionarySignal = (text: string, language: string): number | null => {
+  const words = commonWordSet.get(language);
+  const tokens = text.toLowerCase().match(/\p{L}+/gu) ?? [];
+  if (!words || tokens.length < MIN_WORDS) return null;
+  const hits = tokens.filter((t) => words.has(t)).length;
+  return Math.min(1, hits / tokens.length / EXPECTED_COMMON_WORD_SHARE);
+};
+
+// Letters, digits, whitespace and the punctuation legal text uses; anything else is a stray symbol.
+const EXPECTED_CHAR = /[\p{L}\p{M}\p{N}\s.,;:!?'"“”‘’«»„()[\]{}\-–—/\\%§¶&*+=°ºª@#$€£…•·]/u;
+
+/** 1 without stray symbols, 0 at MAX_GARBAGE_SHARE or more; null for empty text. */
+const garbageSignal = (text: string): number | null => {
+  const chars = [...text.replace(/\s+/g, "")];
+  if (chars.length === 0) return null;
+  const garbage = chars.filter((c) => !EXPECTED_CHAR.test(c)).length;
+  return Math.max(0, 1 - garbage / chars.length / MAX_GARBAGE_SHARE);
+};
+
+/**
+ * Text length against ink: 1 within LENGTH_TOLERANCE of the document's median characters per
+ * ink unit, lower the further off. A blank page with text (hallucination) and a printed page
+ * without text both score 0.
+ */
+const lengthVsInkSignal = (chars: number, inkDensity: number | null, medianCharsPerInk: number | null): number | null => {
+  if (inkDensity === null) return null;
+  if (inkDensity < MIN_INK_DENSITY) return chars > MIN_WORDS * 5 ? 0 : null;
+  if (chars === 0) return 0;
+  if (medianCharsPerInk === null) return null;
+  const ratio = chars / inkDensity / medianCharsPerInk;
+  if (ratio < 1 / LENGTH_TOLERANCE) return ratio * LENGTH_TOLERANCE;
+  if (ratio > LENGTH_TOLERANCE) return Math.max(0, LENGTH_TOLERANCE / ratio);
+  return 1;
+};
+
+const median = (values: number[]): number | null => {
+  if (values.length < MIN_CALIBRATION_PAGES) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+/* --- Score --- */
+
+/**
+ * Scores every page of one document. `inkDensities` holds the share of dark pixels of each
+ * page image (null while unknown or without an image).
+ */
+export const scoreOcrPages = (texts: string[], inkDensities: (number | null)[], language: string): OcrQuality[] => {
+  const medianCharsPerInk = median(
+    texts.flatMap((text, i) => {
+      const ink = inkDensities[i];
+      return ink !== null && ink >= MIN_INK_DENSITY && text.trim() && !text.startsWith("[ERROR") ? [text.trim().length / ink] : [];
+    })
+  );
+
+  return texts.map((text, i) => {
+    if (text.startsWith("[ERROR")) {
+      return { score: 0, signals: { dictionary: null, garbage: null, lengthVsInk: null, error: true }, reasons: ["OCR failed on this page"] };
+    }
+    const signals = {
+      dictionary: dictionarySignal(text, language),
+      garbage: garbageSignal(text),
+      lengthVsInk: lengthVsInkSignal(text.trim().length, inkDensities[i] ?? null, medianCharsPerInk),
+      error: false,
+    };
+
+    const weighted = (Object.keys(WEIGHTS) as (keyof typeof WEIGHTS)[]).flatMap((key) =>
+      signals[key] === null ? [] : [{ value: signals[key] as number, weight: WEIGHTS[key] }]
+    );
+    const totalWeight = weighted.reduce((acc, w) => acc + w.weight, 0);
+    const score = totalWeight === 0 ? 100 : Math.round((100 * weighted.reduce((acc, w) => acc + w.value * w.weight, 0)) / totalWeight);
+
+    const reasons: string[] = [];
+    if (signals.dictionary !== null && signals.dictionary < 0.6) reasons.push(`few common ${language} words`);
+    if (signals.garbage !== null && signals.garbage < 0.6) reasons.push("many stray symbols");
+    if (signals.lengthVsInk !== null && signals.lengthVsInk < 0.6) {
+      const ink = inkDensities[i] as number;
+      if (ink < MIN_INK_DENSITY) reasons.push("text on a blank page");
+      else if (!text.trim()) reasons.push("no text, but the page is not blank");
+      else if (text.trim().length / ink < (medianCharsPerInk as number)) reasons.push("little text for the ink on the page");
+      else reasons.push("more text than the page image suggests");
+    }
+    return { score, signals, reasons };
+  });
+};
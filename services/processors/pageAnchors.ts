@@ -0,0 +1,61 @@
+/* =====================================================================================
+   PAGE ANCHORS
+   Every extracted page starts with a `{{page N}}` line. Page break markers are merged away
+   by cleaning and chunking, but the anchors are kept by every step (prompts ask for it,
+   guards enforce it), so any line of the final document can be traced to its source page.
+===================================================================================== */
+
+export const PAGE_BREAK_MARKER = "\n\n--- PAGE BREAK ---\n\n";
+
+const ANCHOR_LINE = /^[ \t]*{{page (\d+)}}[ \t]*$/;
+const ANCHOR_LINES = /^[ \t]*{{page (\d+)}}[ \t]*$/gm;
+
+export const formatPageAnchor = (pageNumber: number): string => `{{page ${pageNumber}}}`;
+
+export const isPageAnchorLine = (line: string): boolean => ANCHOR_LINE.test(line);
+
+export const hasPageAnchors = (text: string): boolean => /{{page \d+}}/.test(text);
+
+/** Page numbers of the anchors standing on their own line, in order. */
+export const listPageAnchors = (text: string): number[] =>
+  [...text.matchAll(ANCHOR_LINES)].map((m) => Number(m[1]));
+
+/**
+ * Joins page texts with page break markers, each page starting with its anchor.
+ * `pageNumbers` gives the source page of each text (default: 1, 2, 3, ...).
+ */
+export const joinPagesWithAnchors = (pages: string[], pageNumbers?: number[]): string =>
+  pages.map((text, i) => `${formatPageAnchor(pageNumbers?.[i] ?? i + 1)}\n${text}`).join(PAGE_BREAK_MARKER);
+
+/** Splits off the anchor line the text starts with (with its newline), so content can be put after it. */
+export const splitLeadingPageAnchor = (text: string): { anchor: string; body: string } => {
+  const m = text.match(/^[ \t]*{{page \d+}}[ \t]*(\n|$)/);
+  return m ? { anchor: m[0], body: text.slice(m[0].length) } : { anchor: "", body: text };
+};
+
+/** Removes anchor lines (and any anchor left inside a line) for export. */
+export const stripPageAnchors = (text: string): string =>
+  text.replace(/^[ \t]*{{page \d+}}[ \t]*(\n|$)/gm, "").replace(/{{page \d+}}/g, "");
+
+/** Source page of a 1-based line: the last anchor at or above it, or null before the first anchor. */
+export const pageAtLine = (text: string, lineNumber: number): number | null => {
+  const lines = text.split("\n");
+  for (let i = Math.min(lineNumber, lines.length) - 1; i >= 0; i--) {
+    const m = lines[i].match(ANCHOR_LINE);
+    if (m) return Number(m[1]);
+  }
+  return null;
+};
+
+/** Throws if the output lost, renumbered, reordered or inlined any anchor of the input. */
+export const guardPageAnchors = (input: string, output: string) => {
+  const before = listPageAnchors(input);
+  const after = listPageAnchors(output);
+  if (before.join(",") === after.join(",")) return;
+  const missing = before.filter((n) => !after.includes(n));
+  throw new Error(
+    missing.length > 0
+      ? `Page anchors lost: ${missing.slice(0, 5).map(formatPageAnchor).join(", ")}${missing.length > 5 ? ", ..." : ""}.`
+      : `Page anchors changed (${before.length} -> ${after.length}, or reordered).`
+  );
+};
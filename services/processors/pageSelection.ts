@@ -0,0 +1,46 @@
+/* =====================================================================================
+   PAGE SELECTION
+   Range expressions for choosing the pages of a PDF to process: "1-3,10-20" selects,
+   "12-" runs to the last page and "!" excludes ("1-140,!2-4"). Exclusions apply after
+   all inclusions, whatever their position.
+===================================================================================== */
+
+const RANGE_TOKEN = /^(!?)\s*(\d+)\s*(?:-\s*(\d*))?$/;
+
+/**
+ * Parses a range expression into ascending, de-duplicated 1-based page numbers.
+ * An expression with only exclusions starts from all pages. Throws on malformed tokens or
+ * pages outside 1..pageCount.
+ */
+export const parsePageRanges = (expression: string, pageCount: number): number[] => {
+  const tokens = expression.split(/[,;]/).map((t) => t.trim()).filter(Boolean);
+  const included = new Set<number>();
+  const excluded = new Set<number>();
+
+  for (const token of tokens) {
+    const m = token.match(RANGE_TOKEN);
+    if (!m) throw new Error(`"${token}" is not a page or range.`);
+    const from = Number(m[2]);
+    const to = m[3] === undefined ? from : m[3] === "" ? pageCount : Number(m[3]);
+    if (from < 1 || to > pageCount) throw new Error(`"${token}" is outside pages 1-${pageCount}.`);
+    if (from > to) throw new Error(`"${token}" runs backwards.`);
+    const target = m[1] ? excluded : included;
+    for (let page = from; page <= to; page++) target.add(page);
+  }
+
+  const onlyExclusions = included.size === 0 && excluded.size > 0;
+  const pages = onlyExclusions ? Array.from({ length: pageCount }, (_, i) => i + 1) : [...included];
+  return pages.filter((page) => !excluded.has(page)).sort((a, b) => a - b);
+};
+
+/** Shortest range expression for the given pages ("1-3,10-20"). */
+export const formatPageRanges = (pages: number[]): string => {
+  const sorted = [...new Set(pages)].sort((a, b) => a - b);
+  const ranges: string[] = [];
+  for (let i = 0; i < sorted.length; i++) {
+    const start = sorted[i];
+    while (sorted[i + 1] === sorted[i] + 1) i++;
+    ranges.push(start === sorted[i] ? String(start) : `${start}-${sorted[i]}`);
+  }
+  return ranges.join(",");
+};
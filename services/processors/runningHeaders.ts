@@ -0,0 +1,144 @@
+/* =====================================================================================
+   RUNNING HEADERS & FOOTERS
+   Deterministic pre-pass before AI cleaning. Lines at the top or bottom of a page that
+   repeat across pages (running titles, chapter names, page numbers) are found and removed;
+   lines differing only in their numbers count as the same line. Every removal is reported
+   so it can be reviewed and restored.
+===================================================================================== */
+
+import { isPageAnchorLine, listPageAnchors } from "./pageAnchors";
+
+export type RemovedLine = {
+  /** Stable key: `${pageIndex}:${lineIndex}`. */
+  id: string;
+  /** 0-based page (segment between page break markers). */
+  pageIndex: number;
+  /** PDF page number from the page's `{{page N}}` anchor, or null for text without anchors. */
+  pageNumber: number | null;
+  /** 0-based line within that page. */
+  lineIndex: number;
+  position: "top" | "bottom";
+  text: string;
+  /** Normalized form shared by all lines removed for the same reason. */
+  pattern: string;
+};
+
+export type HeaderFooterReport = {
+  pageCount: number;
+  removed: RemovedLine[];
+};
+
+const PAGE_BREAK_SPLIT = /(\n*--- PAGE BREAK ---\n*)/;
+
+// Only this many non-empty lines at each end of a page are header/footer candidates.
+const EDGE_LINES = 3;
+// A pattern must appear on this share of pages (alternating even/odd headers reach ~50%),
+// and on at least MIN_REPEAT_PAGES pages.
+const MIN_REPEAT_SHARE = 0.3;
+const MIN_REPEAT_PAGES = 3;
+// Longer lines are body text, however often they repeat.
+const MAX_LINE_LENGTH = 120;
+// Roman page numbers: well-formed numerals from i to xlix (front matter). Anything else, such as
+// "mix", "civil" or "did", is a word and keeps its own pattern.
+const ROMAN_PAGE_NUMBER = /^(?=[ivx])(xl|x{0,3})(ix|iv|v?i{0,3})$/;
+
+/** Same pattern for lines that differ only in numbers, case or spacing ("Page 3 of 10" = "page 7 of 10"). */
+const normalizeLine = (line: string): string =>
+  line
+    .trim()
+    .toLowerCase()
+    .replace(/\d+/g, "#")
+    .replace(ROMAN_PAGE_NUMBER, "#")
+    .replace(/\s+/g, " ");
+
+/** Splits text into pages, keeping the separators so the text can be rebuilt exactly. */
+const splitPages = (text: string): { pages: string[]; separators: string[] } => {
+  const parts = text.split(PAGE_BREAK_SPLIT);
+  return {
+    pages: parts.filter((_, i) => i % 2 === 0),
+    separators: parts.filter((_, i) => i % 2 === 1),
+  };
+};
+
+/** Indices of the non-empty candidate lines at one end of a page, outermost first. Page anchors are never candidates. */
+const edgeLineIndices = (lines: string[], position: RemovedLine["position"]): number[] => {
+  const indices = lines.flatMap((line, i) => (line.trim() && !isPageAnchorLine(line) ? [i] : []));
+  const edge = position === "top" ? indices : [...indices].reverse();
+  return edge.slice(0, EDGE_LINES);
+};
+
+const POSITIONS: RemovedLine["position"][] = ["top", "bottom"];
+
+/**
+ * Finds running headers, footers and page numbers. A line is removed only if it and every
+ * line between it and the page edge match a repeating pattern, so body text that happens to
+ * repeat further in is left alone.
+ */
+export const detectRunningHeadersFooters = (text: string): HeaderFooterReport => {
+  const { pages } = splitPages(text);
+  const report: HeaderFooterReport = { pageCount: pages.length, removed: [] };
+  if (pages.length < MIN_REPEAT_PAGES) return report;
+
+  const pageLines = pages.map((page) => page.split("\n"));
+  const minPages = Math.max(MIN_REPEAT_PAGES, Math.ceil(pages.length * MIN_REPEAT_SHARE));
+
+  for (const position of POSITIONS) {
+    const pagesByPattern = new Map<string, Set<number>>();
+    pageLines.forEach((lines, pageIndex) => {
+      for (const i of edgeLineIndices(lines, position)) {
+        if (lines[i].trim().length > MAX_LINE_LENGTH) continue;
+        const pattern = normalizeLine(lines[i]);
+        if (!pagesByPattern.has(pattern)) pagesByPattern.set(pattern, new Set());
+        pagesByPattern.get(pattern)!.add(pageIndex);
+      }
+    });
+    const isRunning = (line: string) =>
+      line.trim().length <= MAX_LINE_LENGTH && (pagesByPattern.get(normalizeLine(line))?.size ?? 0) >= minPages;
+
+    pageLines.forEach((lines, pageIndex) => {
+      for (const lineIndex of edgeLineIndices(lines, position)) {
+        if (!isRunning(lines[lineIndex])) break;
+        if (report.removed.some((r) => r.pageIndex === pageIndex && r.lineIndex === lineIndex)) continue;
+        report.removed.push({
+          id: `${pageIndex}:${lineIndex}`,
+          pageIndex,
+          pageNumber: listPageAnchors(pages[pageIndex])[0] ?? null,
+          lineIndex,
+          position,
+          text: lines[lineIndex].trim(),
+          pattern: normalizeLine(lines[lineIndex]),
+        });
+      }
+    });
+  }
+
+  report.removed.sort((a, b) => a.pageIndex - b.pageIndex || a.lineIndex - b.lineIndex);
+  return report;
+};
+
+/**
+ * Removes the given lines (from detectRunningHeadersFooters on the same text). Restoring a
+ * line is just leaving it out of `lines`. Blank lines left at a page edge are dropped.
+ */
+export const removeReportedLines = (text: string, lines: RemovedLine[]): string => {
+  if (lines.length === 0) return text;
+  const { pages, separators } = splitPages(text);
+  const remove = new Set(lines.map((l) => l.id));
+
+  const cleanedPages = pages.map((page, pageIndex) => {
+    const kept = page.split("\n").filter((_, lineIndex) => !remove.has(`${pageIndex}:${lineIndex}`));
+    return kept.join("\n").replace(/^\n+|\n+$/g, "");
+  });
+  return cleanedPages.map((page, i) => page + (separators[i] ?? "")).join("");
+};
+
+/** Removed lines grouped by pattern, most frequent first, for review. */
+export const groupRemovedLines = (removed: RemovedLine[]): { pattern: string; position: RemovedLine["position"]; lines: RemovedLine[] }[] => {
+  const groups = new Map<string, { pattern: string; position: RemovedLine["position"]; lines: RemovedLine[] }>();
+  for (const line of removed) {
+    const key = `${line.position}|${line.pattern}`;
+    if (!groups.has(key)) groups.set(key, { pattern: line.pattern, position: line.position, lines: [] });
+    groups.get(key)!.lines.push(line);
+  }
+  return [...groups.values()].sort((a, b) => b.lines.length - a.lines.length);
+};
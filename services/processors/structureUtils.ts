@@ -4,6 +4,8 @@
    Pure functions for validating, converting, and guarding text structures.
 ===================================================================================== */
 
+import { guardPageAnchors, isPageAnchorLine } from "./pageAnchors";
+
 const normalizeNewlines = (s: string) => s.replace(/\r\n/g, "\n").replace(/\r/g, "\n");
 const normalizeForComparison = (s: string) => s.replace(/\s+/g, '').trim();
 
@@ -76,6 +78,33 @@ export const guardStep2ContentIntegrity = (input: string, output: string) => {
     }
 };
 
+/**
+ * Cleaning only removes artifacts (page numbers, running headers). Throws if the output
+ * grew, or lost so much that body text must have been dropped.
+ */
+export const guardCleaningOutput = (input: string, output: string) => {
+    const inLen = normalizeForComparison(input).length;
+    const outLen = normalizeForComparison(output).length;
+    if (inLen > 0 && outLen === 0) throw new Error("Cleaning returned empty output.");
+    if (outLen > inLen * 1.05 + 50) throw new Error(`Cleaning added text (${inLen} -> ${outLen} chars).`);
+    if (outLen < inLen * 0.5) throw new Error(`Cleaning removed ${Math.round((1 - outLen / inLen) * 100)}% of the text.`);
+    guardPageAnchors(input, output);
+};
+
+/**
+ * Tagging steps (1, 1.5, 2) may only add or move tags. Throws if the text without tags and
+ * whitespace differs in length by more than 2%.
+ */
+export const guardTaggingPreservesText = (input: string, output: string) => {
+    const strip = (s: string) => normalizeForComparison(s.replace(/{{[^}]+}}/g, ''));
+    const inLen = strip(input).length;
+    const outLen = strip(output).length;
+    if (Math.abs(outLen - inLen) > Math.max(20, inLen * 0.02)) {
+        throw new Error(`Text changed while tagging (${inLen} -> ${outLen} chars without tags).`);
+    }
+    guardPageAnchors(input, output);
+};
+
 /**
  * Transforms ">>>H1 Title" into "{{level1}}Title{{-level1}}"
  * Aggressively cleans existing tags to prevent double-tagging.
@@ -117,6 +146,13 @@ export const convertShortTagsToFullStructure = (text: string): string => {
       continue;
     }
 
+    // Page anchors pass through as-is, with or without a prefix
+    const unprefixed = trimmed.replace(/^>>>[A-Z0-9]{2}\s?/, '');
+    if (isPageAnchorLine(unprefixed)) {
+      outLines.push(unprefixed.trim());
+      continue;
+    }
+
     // PREFIX HANDLERS
     const hMatch = line.match(/^>>>H(\d)\s?(.*)$/);
     if (hMatch) {
@@ -255,6 +291,12 @@ export const validateStructuralIntegrity = (text: string): string => {
     line = stripTextLevelVariants(line);
     const trimmed = line.trim();
 
+    // 0. Page anchors pass through without opening or closing anything
+    if (isPageAnchorLine(trimmed)) {
+      out.push(line);
+      continue;
+    }
+
     // 1. Footnotes break out of text_level
     if (isFootnoteLine(trimmed)) {
       pushCloseIfOpen();
@@ -316,7 +358,7 @@ export const validateStructuralIntegrity = (text: string): string => {
 
 /* --- Step 3 Guardrail Logic --- */
 
-const STEP3_ALLOWED_TAG = /^{{(-?)(level\d+|text_level|footnote\d+|footnotenumber\d+)}}$/;
+const STEP3_ALLOWED_TAG = /^{{(-?(level\d+|text_level|footnote\d+|footnotenumber\d+)|page \d+)}}$/;
 
 const step3ExtractTagTokens = (s: string): string[] => s.match(/{{[^}]+}}/g) ?? [];
 
@@ -393,7 +435,15 @@ export const guardStep3ConservativeOutput = (
     return { text: before, issues };
   }
 
-  // 2) Balance text_level
+  // 2) Page anchors
+  try {
+    guardPageAnchors(b, a);
+  } catch (e) {
+    issues.push((e as Error).message);
+    return { text: before, issues };
+  }
+
+  // 3) Balance text_level
   const bOpen = step3Count(b, /{{text_level}}/g);
   const aOpen = step3Count(a, /{{text_level}}/g);
   const aClose = step3Count(a, /{{-text_level}}/g);
@@ -407,7 +457,7 @@ export const guardStep3ConservativeOutput = (
       return { text: before, issues };
   }
 
-  // 3) Payload check
+  // 4) Payload check
   const beforePayload = step3PayloadLines(b);
   const afterPayload = step3PayloadLines(a);
 
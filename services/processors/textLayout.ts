@@ -0,0 +1,302 @@
+/* =====================================================================================
+   TEXT LAYOUT
+   Rebuilds lines, paragraphs and indentation of a native PDF page from the geometry of
+   its pdf.js text items, instead of joining every item with a space.
+===================================================================================== */
+
+import type { TextItem, TextMarkedContent } from "pdfjs-dist/types/src/display/api";
+import type { ColumnLayout } from "../../types";
+
+/** A pdf.js text item in PDF user space (origin bottom-left, y grows upwards). */
+export type PositionedTextItem = {
+  str: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  fontName: string;
+  bold: boolean;
+  hasEOL: boolean;
+  rtl: boolean;
+};
+
+export type LayoutLine = {
+  items: PositionedTextItem[];
+  x: number;
+  /** Right edge of the last item. */
+  right: number;
+  y: number;
+  height: number;
+  rtl: boolean;
+  text: string;
+};
+
+/* --- Internal Helpers --- */
+
+const median = (values: number[]): number => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+// Items whose baselines differ by less than this share a line (fraction of the text height).
+// Generous enough to keep raised footnote numbers on their line.
+const SAME_LINE_TOLERANCE = 0.5;
+// A horizontal gap wider than this (fraction of the text height) is a word space.
+const WORD_GAP = 0.15;
+// A baseline step this much larger than the page's usual line spacing starts a paragraph.
+const PARAGRAPH_GAP = 1.5;
+// Offsets below this many character widths are alignment noise, not indentation.
+const MIN_INDENT_CHARS = 2;
+const MAX_INDENT_CHARS = 40;
+// Column detection: candidate gutters are searched in this step (PDF points), inside the middle
+// of the text block, and must be this wide with this many lines fully on each side.
+const GUTTER_SCAN_STEP = 2;
+const GUTTER_SCAN_MARGIN = 0.1;
+const MIN_GUTTER_WIDTH = 6;
+const MIN_COLUMN_LINES = 3;
+// Lines crossing a gutter are full-width blocks (titles, tables); a few are tolerated.
+const MAX_CROSSING_SHARE = 0.1;
+
+/** Joins the items of one line, adding a space where the gap between them is a word gap. */
+export const joinLineItems = (items: PositionedTextItem[]): string => {
+  let text = "";
+  let prev: PositionedTextItem | null = null;
+  for (const item of items) {
+    if (prev) {
+      const gap = item.rtl ? prev.x - (item.x + item.width) : item.x - (prev.x + prev.width);
+      const needsSpace = gap > Math.max(prev.height, item.height) * WORD_GAP;
+      if (needsSpace && !/\s$/.test(text) && !/^\s/.test(item.str)) text += " ";
+    }
+    text += item.str;
+    prev = item;
+  }
+  return text.replace(/[ \t]+/g, " ").trim();
+};
+
+const toLine = (items: PositionedTextItem[]): LayoutLine => {
+  const rtl = items.filter((i) => i.rtl).length > items.length / 2;
+  const ordered = [...items].sort((a, b) => (rtl ? b.x - a.x : a.x - b.x));
+  return {
+    items: ordered,
+    x: Math.min(...ordered.map((i) => i.x)),
+    right: Math.max(...ordered.map((i) => i.x + i.width)),
+    y: median(ordered.map((i) => i.y)),
+    height: Math.max(...ordered.map((i) => i.height)),
+    rtl,
+    text: joinLineItems(ordered),
+  };
+};
+
+/* --- Public API --- */
+
+export const toPositionedItems = (
+  items: Array<TextItem | TextMarkedContent>,
+  isBoldFont: (fontName: string) => boolean = () => false
+): PositionedTextItem[] =>
+  items.flatMap((item) => {
+    if (!("str" in item)) return [];
+    const [, , c, d, x, y] = item.transform as number[];
+    return [{
+      str: item.str,
+      x,
+      y,
+      width: item.width,
+      height: item.height || Math.hypot(c, d),
+      fontName: item.fontName,
+      bold: isBoldFont(item.fontName),
+      hasEOL: item.hasEOL,
+      rtl: item.dir === "rtl",
+    }];
+  });
+
+/**
+ * Groups items into visual lines, in the order the items come in. A line ends at an item
+ * flagged `hasEOL` or when the next item sits on a different baseline.
+ */
+export const groupIntoLines = (items: PositionedTextItem[]): LayoutLine[] => {
+  const lines: LayoutLine[] = [];
+  let current: PositionedTextItem[] = [];
+  let endOfLine = false;
+
+  const flush = () => {
+    if (current.length > 0) lines.push(toLine(current));
+    current = [];
+  };
+
+  for (const item of items) {
+    if (item.str.trim().length > 0) {
+      const anchor = current[0];
+      const offBaseline = anchor && Math.abs(item.y - anchor.y) > Math.max(anchor.height, item.height) * SAME_LINE_TOLERANCE;
+      if (endOfLine || offBaseline) flush();
+      current.push(item);
+      endOfLine = false;
+    }
+    if (item.hasEOL) endOfLine = true;
+  }
+  flush();
+  return lines.filter((line) => line.text.length > 0);
+};
+
+/**
+ * Serializes lines as page text: one text line per visual line, a blank line between
+ * paragraphs, leading spaces for indentation, and words hyphenated across a line break
+ * joined back together.
+ */
+export const serializeLines = (lines: LayoutLine[]): string => {
+  if (lines.length === 0) return "";
+
+  const leftMargin = Math.min(...lines.map((l) => l.x));
+  const charWidths = lines.flatMap((l) => l.items.filter((i) => i.str.length > 0).map((i) => i.width / i.str.length));
+  const charWidth = median(charWidths.filter((w) => w > 0)) || median(lines.map((l) => l.height)) * 0.5 || 1;
+  const steps = lines.slice(1).map((line, i) => lines[i].y - line.y);
+  const lineSpacing = median(steps.filter((s, i) => s > 0 && s < lines[i].height * 3)) || median(lines.map((l) => l.height)) * 1.2;
+
+  const out: string[] = [];
+  lines.forEach((line, i) => {
+    const step = i > 0 ? lines[i - 1].y - line.y : 0;
+    // A jump upwards means a new column or block.
+    const newParagraph = i > 0 && (step < 0 || step > lineSpacing * PARAGRAPH_GAP);
+    let text = line.text;
+
+    const prev = out[out.length - 1];
+    if (!newParagraph && prev !== undefined && /\p{L}[-\u00AD]$/u.test(prev) && /^\p{Ll}/u.test(text)) {
+      const [fragment, ...rest] = text.split(" ");
+      out[out.length - 1] = prev.slice(0, -1) + fragment;
+      text = rest.join(" ");
+      if (!text) return;
+    }
+
+    if (newParagraph) out.push("");
+    // Right-to-left lines are right-aligned, so their left offset says nothing about indentation.
+    const indent = line.rtl ? 0 : Math.min(Math.round((line.x - leftMargin) / charWidth), MAX_INDENT_CHARS);
+    out.push((indent >= MIN_INDENT_CHARS ? " ".repeat(indent) : "") + text);
+  });
+  return out.join("\n");
+};
+
+/* --- Columns and Reading Order --- */
+
+/** Splits a line wherever the gap between two items contains one of the boundaries. */
+const splitAtBoundaries = (line: LayoutLine, boundaries: number[]): LayoutLine[] => {
+  if (boundaries.length === 0 || line.rtl) return [line];
+  const parts: PositionedTextItem[][] = [[]];
+  line.items.forEach((item, i) => {
+    const prev = line.items[i - 1];
+    if (prev && boundaries.some((b) => prev.x + prev.width <= b && item.x >= b)) parts.push([]);
+    parts[parts.length - 1].push(item);
+  });
+  return parts.length === 1 ? [line] : parts.map(toLine);
+};
+
+/** Splits lines at every gap wide enough to be a column gutter. */
+const splitAtWideGaps = (line: LayoutLine): LayoutLine[] => {
+  const gaps = line.items.slice(1).flatMap((item, i) => {
+    const prev = line.items[i];
+    const start = prev.x + prev.width;
+    return item.x - start >= Math.max(MIN_GUTTER_WIDTH, line.height) ? [(start + item.x) / 2] : [];
+  });
+  return splitAtBoundaries(line, gaps);
+};
+
+/**
+ * Finds the x positions of column gutters: vertical bands that almost no line crosses and
+ * that have enough lines on both sides. With a forced column count, the n-1 least crossed
+ * positions are used instead.
+ */
+export const findColumnBoundaries = (lines: LayoutLine[], columns: ColumnLayout = "auto"): number[] => {
+  if (columns === 1) return [];
+  const fragments = lines.flatMap(splitAtWideGaps);
+  if (fragments.length < MIN_COLUMN_LINES * 2) return [];
+
+  const left = Math.min(...fragments.map((f) => f.x));
+  const right = Math.max(...fragments.map((f) => f.right));
+  const span = right - left;
+  const positions: { x: number; crossing: number }[] = [];
+  for (let x = left + span * GUTTER_SCAN_MARGIN; x <= right - span * GUTTER_SCAN_MARGIN; x += GUTTER_SCAN_STEP) {
+    positions.push({ x, crossing: fragments.filter((f) => f.x < x && f.right > x).length });
+  }
+
+  if (columns !== "auto") {
+    const chosen: number[] = [];
+    const minDistance = span / (columns * 2);
+    for (const { x } of [...positions].sort((a, b) => a.crossing - b.crossing)) {
+      if (chosen.length === columns - 1) break;
+      if (chosen.every((c) => Math.abs(c - x) >= minDistance)) chosen.push(x);
+    }
+    return chosen.sort((a, b) => a - b);
+  }
+
+  // Runs of barely crossed positions; each wide, well-supported run is one gutter.
+  const maxCrossing = Math.floor(fragments.length * MAX_CROSSING_SHARE);
+  const boundaries: number[] = [];
+  let run: number[] = [];
+  const closeRun = () => {
+    if (run.length > 0 && run[run.length - 1] - run[0] + GUTTER_SCAN_STEP >= MIN_GUTTER_WIDTH) {
+      const center = (run[0] + run[run.length - 1]) / 2;
+      const prevBoundary = boundaries[boundaries.length - 1] ?? -Infinity;
+      const linesLeft = fragments.filter((f) => f.right <= center && f.x >= prevBoundary).length;
+      const linesRight = fragments.filter((f) => f.x >= center).length;
+      if (linesLeft >= MIN_COLUMN_LINES && linesRight >= MIN_COLUMN_LINES) boundaries.push(center);
+    }
+    run = [];
+  };
+  for (const { x, crossing } of positions) {
+    if (crossing <= maxCrossing) run.push(x);
+    else closeRun();
+  }
+  closeRun();
+  return boundaries;
+};
+
+/**
+ * Puts lines in reading order for the given gutters: top to bottom, each band of column text
+ * is read column by column; a line crossing a gutter is a full-width block that ends the band.
+ * Returns one group of lines per column stretch or full-width block.
+ */
+export const orderByColumns = (lines: LayoutLine[], boundaries: number[]): LayoutLine[][] => {
+  const fragments = lines.flatMap((line) => splitAtBoundaries(line, boundaries)).sort((a, b) => b.y - a.y);
+  const columnOf = (f: LayoutLine) =>
+    boundaries.some((b) => f.x < b && f.right > b) ? -1 : boundaries.filter((b) => f.x >= b).length;
+
+  const sections: LayoutLine[][] = [];
+  let band: LayoutLine[][] = boundaries.map(() => []).concat([[]]);
+  let fullWidth: LayoutLine[] = [];
+  const flushBand = () => {
+    band.filter((column) => column.length > 0).forEach((column) => sections.push(column));
+    band = band.map(() => []);
+  };
+
+  for (const fragment of fragments) {
+    const column = columnOf(fragment);
+    if (column === -1) {
+      flushBand();
+      fullWidth.push(fragment);
+    } else {
+      if (fullWidth.length > 0) sections.push(fullWidth);
+      fullWidth = [];
+      band[column].push(fragment);
+    }
+  }
+  flushBand();
+  if (fullWidth.length > 0) sections.push(fullWidth);
+  return sections;
+};
+
+/**
+ * Page text with lines, paragraphs and indentation rebuilt from item geometry. Multi-column
+ * pages are read column by column; `columns` forces a column count instead of detecting it.
+ * Also returns the lines in reading order.
+ */
+export const reconstructPageLayout = (
+  items: Array<TextItem | TextMarkedContent>,
+  columns: ColumnLayout = "auto",
+  isBoldFont?: (fontName: string) => boolean
+): { text: string; columnCount: number; lines: LayoutLine[] } => {
+  const lines = groupIntoLines(toPositionedItems(items, isBoldFont));
+  const boundaries = findColumnBoundaries(lines, columns);
+  if (boundaries.length === 0) return { text: serializeLines(lines), columnCount: 1, lines };
+
+  const sections = orderByColumns(lines, boundaries);
+  return { text: sections.map(serializeLines).join("\n\n"), columnCount: boundaries.length + 1, lines: sections.flat() };
+};
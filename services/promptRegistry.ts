@@ -20,6 +20,21 @@ Return ONLY the verbatim extracted text.
 `;
 };
 
+export const getOcrLineBoxRule = (): string => `
+
+LINE BOXES (MANDATORY)
+Start every non-empty output line with the bounding box of that line on the image: [ymin, xmin, ymax, xmax], coordinates from 0 to 1000, then one space, then the line's text.
+Example: [112, 85, 131, 912] Article 1 - Scope
+- Leave empty lines empty, without a box.
+- The box is the only exception to "Output ONLY the extracted text"; the text after it follows all rules above.
+`;
+
+export const getOcrExtraInstruction = (instruction: string): string => `
+
+ADDITIONAL INSTRUCTION FOR THIS PAGE
+${instruction.trim()}
+`;
+
 export const getTaskInstructionsForTextComparison = (language: string): string => {
   return `
 You are an expert document AUDITOR. The document is in ${language}.
@@ -119,6 +134,16 @@ Now transform:
 `;
 };
 
+// Appended to the task instructions of any chunk that carries page anchors.
+export const getPageAnchorRule = (): string => `
+
+PAGE ANCHORS (MANDATORY)
+Lines like {{page 12}} mark where a page of the source PDF starts. They are not document text and not structure.
+- Copy every page anchor exactly, on its own line, between the same lines as in the input.
+- Never remove, renumber, merge or add them, and never put text or other tags on their line.
+- Do not wrap them in any tag; they may sit inside or outside {{text_level}} blocks.
+`;
+
 // --- CLEANING PROMPT (LAYOUT FIX ONLY) ---
 export const getTaskInstructionsForCleaning = (language: string): string => {
   return `
@@ -247,6 +272,18 @@ The Parties shall establish a committee.
 `;
 };
 
+// Appended to the Step 1 instructions when the PDF's fonts suggest headlines in the chunk.
+export const getHeadlineHintsSection = (hints: string[]): string => {
+  if (hints.length === 0) return "";
+  return `
+FONT-BASED HINTS (ADVISORY)
+In the PDF, these lines are set in a larger, bold or all-caps font. The proposed level comes from the font size ranking.
+Use them as strong evidence for headlines and their relative depth, but all rules above still apply:
+merge identifier + title lines, never tag body sentences, and keep the hierarchy without jumps.
+${hints.map((hint) => `- ${hint}`).join("\n")}
+`;
+};
+
 // --- STEP 1.5: FOOTNOTES ---
 export const getTaskInstructionsForStep1_Footnotes = (language: string): string => {
   return `
@@ -270,6 +307,17 @@ Return the text with footnote tags added. Do not modify headline tags.
 `;
 };
 
+// Appended to the Step 1.5 instructions when the PDF's typography shows footnotes in the chunk.
+export const getFootnoteHintsSection = (hints: string[]): string => {
+  if (hints.length === 0) return "";
+  return `
+FOOTNOTES FOUND IN THE PDF (ADVISORY)
+These numbers are set as superscripts, and these notes are in the small-font block at the bottom of a page.
+Tag them unless the text clearly contradicts it, and look for others the same way.
+${hints.map((hint) => `- ${hint}`).join("\n")}
+`;
+};
+
 // --- STEP 2: CONTENT STRUCTURING (FULL TAG MODE) ---
 export const getTaskInstructionsForStep2_Content = (
   language: string,
@@ -331,6 +379,7 @@ INPUT GUARANTEE
   - Structural headlines: {{levelN}}...{{-levelN}}
   - Content blocks: {{text_level}} ... {{-text_level}}
   - Footnotes: {{footnoteX}}...{{-footnoteX}}, {{footnotenumberX}}...{{-footnotenumberX}}
+  - Page anchors: {{page N}} lines (never change or move them)
 
 CRITICAL MODE SWITCH
 - If NO reference source is provided (no PDF text), you MUST NOT change ANY level digits anywhere.
@@ -370,7 +419,7 @@ ${hasRef ? `  - Changing the DIGITS in {{levelN}} / {{-levelN}} ONLY for STRUCTU
 2) Allowed tag set (NO NEW TAG TYPES):
 - Allowed tags are ONLY:
   {{levelN}}, {{-levelN}}, {{text_level}}, {{-text_level}},
-  {{footnoteX}}, {{-footnoteX}}, {{footnotenumberX}}, {{-footnotenumberX}}
+  {{footnoteX}}, {{-footnoteX}}, {{footnotenumberX}}, {{-footnotenumberX}}, {{page N}}
 - FORBIDDEN examples:
   {{text_level1}}, {{-text_level1}}, <level1>, markdown headings, JSON, comments.
 
@@ -521,3 +570,43 @@ OUTPUT
 Return ONLY the linearized table text.
 `;
 };
+
+// --- VERIFICATION PASS (QUALITY MODE) ---
+export const getVerificationPrompt = (
+  language: string,
+  taskInstructions: string,
+  input: string,
+  output: string
+): string => {
+  return `
+You are a strict reviewer checking another model's work on a document in ${language}.
+
+The model was given the TASK below and the INPUT, and produced the OUTPUT.
+Decide whether the OUTPUT follows the task without losing, inventing or rewording content the task did not ask to change.
+
+Answer with JSON only:
+{"ok": true, "issues": []}
+or
+{"ok": false, "issues": ["short description of each problem"]}
+
+Minor tag placement choices are NOT issues. Missing or altered sentences ARE issues.
+
+[TASK]
+${taskInstructions}
+[END TASK]
+
+[INPUT]
+${input}
+[END INPUT]
+
+[OUTPUT]
+${output}
+[END OUTPUT]
+`;
+};
+
+export const getVerificationFeedback = (issues: string[]): string => `
+
+A REVIEWER REJECTED YOUR PREVIOUS ANSWER FOR THIS CHUNK. AVOID THESE PROBLEMS:
+${issues.map((issue) => `- ${issue}`).join("\n")}
+`;
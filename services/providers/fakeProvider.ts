@@ -0,0 +1,113 @@
+import {
+  LlmFinishReason,
+  LlmProvider,
+  LlmRequest,
+  LlmResponse,
+  LlmStreamChunk,
+  getContentParts,
+  getContentText,
+  isImagePart,
+} from "./llmProvider";
+import { abortableDelay, throwIfAborted } from "../retryPolicy";
+
+/**
+ * Deterministic in-memory provider. Never touches the network, so the whole App flow
+ * (OCR -> cleaning -> steps -> guardrails) can be exercised offline.
+ *
+ * Default behavior when no rule matches:
+ *  - Chunk prompts echo back their [MAIN CHUNK CONTENT] unchanged (passes every guard).
+ *  - Image requests return a fixed OCR placeholder.
+ *  - JSON-mode requests return a minimal `{ "reply": ... }` object.
+ *  - Anything else returns an empty string.
+ * Streaming yields the same response split into a few pieces.
+ */
+
+export type FakeProviderRule = {
+  match: RegExp | ((request: LlmRequest) => boolean);
+  respond: string | ((request: LlmRequest) => string);
+  /** Simulates truncation or a content block. Defaults to "STOP". */
+  finishReason?: LlmFinishReason;
+};
+
+export type FakeProviderOptions = {
+  rules?: FakeProviderRule[];
+  /** Simulated latency per call in ms. Defaults to 0. */
+  latencyMs?: number;
+};
+
+export type FakeProvider = LlmProvider & {
+  /** Every request received, in order. */
+  readonly calls: LlmRequest[];
+  reset: () => void;
+};
+
+const MAIN_CHUNK_REGEX = /\[START MAIN CHUNK CONTENT\]\n([\s\S]*?)\n\[END MAIN CHUNK CONTENT\]/;
+export const FAKE_OCR_TEXT = "[FAKE OCR TEXT]";
+const STREAM_PIECES = 4;
+
+const defaultResponse = (request: LlmRequest): string => {
+  const text = getContentText(request.contents);
+
+  if (request.config?.responseMimeType === "application/json") {
+    return JSON.stringify({ reply: "Fake provider: no changes proposed." });
+  }
+
+  const chunkMatch = text.match(MAIN_CHUNK_REGEX);
+  if (chunkMatch) return chunkMatch[1];
+
+  if (getContentParts(request.contents).some(isImagePart)) return FAKE_OCR_TEXT;
+
+  return "";
+};
+
+export const createFakeProvider = (options: FakeProviderOptions = {}): FakeProvider => {
+  const { rules = [], latencyMs = 0 } = options;
+  const calls: LlmRequest[] = [];
+
+  const resolve = (request: LlmRequest): { text: string; finishReason: LlmFinishReason } => {
+    const text = getContentText(request.contents);
+    for (const rule of rules) {
+      const matches = rule.match instanceof RegExp ? rule.match.test(text) : rule.match(request);
+      if (matches) {
+        const respond = typeof rule.respond === "string" ? rule.respond : rule.respond(request);
+        return { text: respond, finishReason: rule.finishReason ?? "STOP" };
+      }
+    }
+    return { text: defaultResponse(request), finishReason: "STOP" };
+  };
+
+  const generateContent = async (request: LlmRequest): Promise<LlmResponse> => {
+    calls.push(request);
+    if (latencyMs > 0) await abortableDelay(latencyMs, request.signal);
+    throwIfAborted(request.signal);
+    const { text, finishReason } = resolve(request);
+    const promptTokens = Math.ceil(getContentText(request.contents).length / 4);
+    const outputTokens = Math.ceil(text.length / 4);
+    return { text, finishReason, usage: { promptTokens, outputTokens, totalTokens: promptTokens + outputTokens } };
+  };
+
+  return {
+    name: "fake",
+    calls,
+    generateContent,
+
+    async *generateContentStream(request: LlmRequest): AsyncIterable<LlmStreamChunk> {
+      const { text, usage, finishReason } = await generateContent(request);
+      const pieceSize = Math.max(1, Math.ceil(text.length / STREAM_PIECES));
+      for (let i = 0; i < text.length; i += pieceSize) {
+        throwIfAborted(request.signal);
+        yield { text: text.slice(i, i + pieceSize) };
+      }
+      yield { text: "", usage, finishReason };
+    },
+
+    async countTokens({ contents }): Promise<number> {
+      // Same 1 token ~= 4 chars approximation used by chunkingService.
+      return Math.ceil(getContentText(contents).length / 4);
+    },
+
+    reset: () => {
+      calls.length = 0;
+    },
+  };
+};
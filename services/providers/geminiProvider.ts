@@ -0,0 +1,74 @@
+import { GoogleGenAI, GenerateContentResponse, GenerateContentResponseUsageMetadata } from "@google/genai";
+import type { LlmFinishReason, LlmProvider, LlmRequest, LlmResponse, LlmStreamChunk, LlmUsage } from "./llmProvider";
+
+const toUsage = (usage: GenerateContentResponseUsageMetadata | undefined): LlmUsage | undefined =>
+  usage && {
+    promptTokens: usage.promptTokenCount ?? 0,
+    outputTokens: usage.candidatesTokenCount ?? 0,
+    totalTokens: usage.totalTokenCount ?? 0,
+  };
+
+const BLOCK_REASONS = ["SAFETY", "BLOCKLIST", "PROHIBITED_CONTENT", "SPII", "IMAGE_SAFETY"];
+
+const toFinishReason = (response: GenerateContentResponse): LlmFinishReason | undefined => {
+  // A blocked prompt comes back with no candidates at all, only promptFeedback.
+  if (response.promptFeedback?.blockReason) return "SAFETY";
+  const reason = response.candidates?.[0]?.finishReason as string | undefined;
+  if (!reason) return undefined;
+  if (reason === "STOP" || reason === "MAX_TOKENS" || reason === "RECITATION") return reason;
+  return BLOCK_REASONS.includes(reason) ? "SAFETY" : "OTHER";
+};
+
+export type GeminiProviderOptions = {
+  /** Read on every call, so a key entered or replaced in the settings panel applies immediately. */
+  getApiKey: () => string | null | undefined;
+  /** Send requests to this URL instead of Google, e.g. the local key-holding proxy. */
+  baseUrl?: string;
+};
+
+/**
+ * Gemini implementation of the LlmProvider contract, backed by @google/genai.
+ */
+export const createGeminiProvider = ({ getApiKey, baseUrl }: GeminiProviderOptions): LlmProvider => {
+  let client: { apiKey: string; ai: GoogleGenAI } | null = null;
+
+  const getClient = (): GoogleGenAI => {
+    const apiKey = getApiKey();
+    if (!apiKey) {
+      throw Object.assign(new Error("NO_API_KEY: enter a Gemini API key in Settings."), { status: 401 });
+    }
+    if (client?.apiKey !== apiKey) {
+      client = { apiKey, ai: new GoogleGenAI({ apiKey, ...(baseUrl && { httpOptions: { baseUrl } }) }) };
+    }
+    return client.ai;
+  };
+
+  return {
+    name: "gemini",
+
+    async generateContent({ model, contents, config, signal }: LlmRequest): Promise<LlmResponse> {
+      const response: GenerateContentResponse = await getClient().models.generateContent({
+        model,
+        contents,
+        config: { ...config, abortSignal: signal },
+      } as any);
+      return { text: response.text ?? "", usage: toUsage(response.usageMetadata), finishReason: toFinishReason(response) };
+    },
+
+    async *generateContentStream({ model, contents, config, signal }: LlmRequest): AsyncIterable<LlmStreamChunk> {
+      const stream = await getClient().models.generateContentStream({
+        model,
+        contents,
+        config: { ...config, abortSignal: signal },
+      } as any);
+      for await (const chunk of stream) {
+        yield { text: chunk.text ?? "", usage: toUsage(chunk.usageMetadata), finishReason: toFinishReason(chunk) };
+      }
+    },
+
+    async countTokens({ model, contents }): Promise<number> {
+      const result = await getClient().models.countTokens({ model, contents } as any);
+      return result.totalTokens ?? 0;
+    },
+  };
+};
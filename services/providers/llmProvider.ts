@@ -0,0 +1,100 @@
+/* =====================================================================================
+   LLM PROVIDER
+   Provider-agnostic contract used by geminiService. Every model call in the app goes
+   through the active provider, so providers can be swapped, mocked, or run offline.
+===================================================================================== */
+
+export type LlmTextPart = { text: string };
+export type LlmImagePart = { inlineData: { mimeType: string; data: string } };
+export type LlmPart = LlmTextPart | LlmImagePart;
+
+/** A plain prompt string, or a multimodal list of parts (text + images). */
+export type LlmContents = string | { parts: LlmPart[] };
+
+export interface LlmGenerationConfig {
+  temperature?: number;
+  topK?: number;
+  topP?: number;
+  maxOutputTokens?: number;
+  /** "application/json" switches the provider into JSON mode. */
+  responseMimeType?: string;
+}
+
+export interface LlmRequest {
+  model: string;
+  contents: LlmContents;
+  config?: LlmGenerationConfig;
+  /** Aborts the underlying network request (user stop or per-attempt timeout). */
+  signal?: AbortSignal;
+}
+
+export interface LlmUsage {
+  promptTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+}
+
+/** Why generation ended, normalized across providers. SAFETY covers every content block. */
+export type LlmFinishReason = "STOP" | "MAX_TOKENS" | "SAFETY" | "RECITATION" | "OTHER";
+
+export interface LlmResponse {
+  text: string;
+  /** Token counts reported by the server; absent when the provider doesn't report them. */
+  usage?: LlmUsage;
+  finishReason?: LlmFinishReason;
+}
+
+/** One piece of a streamed response. `text` is the delta since the previous chunk. */
+export interface LlmStreamChunk {
+  text: string;
+  /** Usually only present on the last chunk. */
+  usage?: LlmUsage;
+  finishReason?: LlmFinishReason;
+}
+
+export interface LlmProvider {
+  /** Short identifier shown in logs (e.g. "gemini", "fake"). */
+  readonly name: string;
+  generateContent(request: LlmRequest): Promise<LlmResponse>;
+  /** Optional streaming variant. Callers fall back to generateContent when absent. */
+  generateContentStream?(request: LlmRequest): AsyncIterable<LlmStreamChunk>;
+  countTokens(request: Omit<LlmRequest, "config" | "signal">): Promise<number>;
+}
+
+/* --- Helpers shared by provider implementations --- */
+
+export const isImagePart = (part: LlmPart): part is LlmImagePart => "inlineData" in part;
+
+export const getContentParts = (contents: LlmContents): LlmPart[] =>
+  typeof contents === "string" ? [{ text: contents }] : contents.parts;
+
+export const getContentText = (contents: LlmContents): string =>
+  getContentParts(contents)
+    .map((p) => (isImagePart(p) ? "" : p.text))
+    .join("\n");
+
+/* --- Active provider registry --- */
+
+let activeProvider: LlmProvider | null = null;
+let providerFactory: (() => LlmProvider) | null = null;
+
+/**
+ * Registers a lazy factory used the first time a provider is needed.
+ * Keeps SDK clients from being constructed at module load.
+ */
+export const registerDefaultLlmProvider = (factory: () => LlmProvider) => {
+  providerFactory = factory;
+};
+
+/** Replaces the active provider (e.g. with the fake provider in tests). */
+export const setLlmProvider = (provider: LlmProvider | null) => {
+  activeProvider = provider;
+};
+
+export const getLlmProvider = (): LlmProvider => {
+  if (!activeProvider) {
+    if (!providerFactory) throw new Error("No LLM provider configured.");
+    activeProvider = providerFactory();
+  }
+  return activeProvider;
+};
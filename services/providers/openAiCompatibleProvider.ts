@@ -0,0 +1,151 @@
+import {
+  LlmProvider,
+  LlmRequest,
+  LlmFinishReason,
+  LlmResponse,
+  LlmStreamChunk,
+  LlmUsage,
+  getContentParts,
+  getContentText,
+  isImagePart,
+} from "./llmProvider";
+
+/**
+ * Provider for any OpenAI-compatible chat-completions server
+ * (llama.cpp server, vLLM, Ollama, LM Studio...). Lets documents stay on-premise.
+ */
+
+export type OpenAiCompatibleOptions = {
+  /** e.g. "http://localhost:8080/v1" (llama.cpp) or "http://localhost:11434/v1" (Ollama). */
+  baseUrl: string;
+  apiKey?: string;
+  /**
+   * Maps the app's logical model names (MODEL_FAST / MODEL_STRICT) to the models served
+   * locally. Unmapped names fall back to `defaultModel`, then to the name itself.
+   */
+  modelMap?: Record<string, string>;
+  defaultModel?: string;
+};
+
+type ChatContentPart =
+  | { type: "text"; text: string }
+  | { type: "image_url"; image_url: { url: string } };
+
+const toChatContent = (request: LlmRequest): string | ChatContentPart[] => {
+  if (typeof request.contents === "string") return request.contents;
+  return getContentParts(request.contents).map((part): ChatContentPart =>
+    isImagePart(part)
+      ? { type: "image_url", image_url: { url: `data:${part.inlineData.mimeType};base64,${part.inlineData.data}` } }
+      : { type: "text", text: part.text }
+  );
+};
+
+const toUsage = (usage: any): LlmUsage | undefined =>
+  usage && {
+    promptTokens: usage.prompt_tokens ?? 0,
+    outputTokens: usage.completion_tokens ?? 0,
+    totalTokens: usage.total_tokens ?? 0,
+  };
+
+const toFinishReason = (reason: string | null | undefined): LlmFinishReason | undefined => {
+  if (!reason) return undefined;
+  if (reason === "stop") return "STOP";
+  if (reason === "length") return "MAX_TOKENS";
+  if (reason === "content_filter") return "SAFETY";
+  return "OTHER";
+};
+
+export const createOpenAiCompatibleProvider = (options: OpenAiCompatibleOptions): LlmProvider => {
+  const baseUrl = options.baseUrl.replace(/\/+$/, "");
+  const modelMap = options.modelMap ?? {};
+
+  const resolveModel = (model: string) => modelMap[model] || options.defaultModel || model;
+
+  const postChatCompletion = async (request: LlmRequest, stream: boolean): Promise<Response> => {
+    const { config = {} } = request;
+    const body: Record<string, unknown> = {
+      model: resolveModel(request.model),
+      messages: [{ role: "user", content: toChatContent(request) }],
+      stream,
+    };
+    // Servers only report usage on a stream when asked to.
+    if (stream) body.stream_options = { include_usage: true };
+    if (config.temperature !== undefined) body.temperature = config.temperature;
+    if (config.topP !== undefined) body.top_p = config.topP;
+    // Not part of the OpenAI spec, but llama.cpp, vLLM and Ollama all accept it.
+    if (config.topK !== undefined) body.top_k = config.topK;
+    if (config.maxOutputTokens !== undefined) body.max_tokens = config.maxOutputTokens;
+    if (config.responseMimeType === "application/json") body.response_format = { type: "json_object" };
+
+    const res = await fetch(`${baseUrl}/chat/completions`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(options.apiKey ? { Authorization: `Bearer ${options.apiKey}` } : {}),
+      },
+      body: JSON.stringify(body),
+      signal: request.signal,
+    });
+
+    if (!res.ok) {
+      const detail = await res.text().catch(() => "");
+      // Mirror the SDK error shape (status + message) so classifyError can type it.
+      const retryAfter = Number(res.headers.get("Retry-After"));
+      throw Object.assign(new Error(`${res.status} ${res.statusText}: ${detail.slice(0, 500)}`), {
+        status: res.status,
+        retryAfterMs: Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter * 1000 : undefined,
+      });
+    }
+    return res;
+  };
+
+  return {
+    name: "openai-compatible",
+
+    async generateContent(request: LlmRequest): Promise<LlmResponse> {
+      const json = await (await postChatCompletion(request, false)).json();
+      const choice = json.choices?.[0];
+      return {
+        text: choice?.message?.content ?? "",
+        usage: toUsage(json.usage),
+        finishReason: toFinishReason(choice?.finish_reason),
+      };
+    },
+
+    async *generateContentStream(request: LlmRequest): AsyncIterable<LlmStreamChunk> {
+      const res = await postChatCompletion(request, true);
+      if (!res.body) throw new Error("Streaming response has no body.");
+
+      // Server-sent events: one `data: {json}` line per delta, terminated by `data: [DONE]`.
+      const reader = res.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = "";
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) return;
+        buffer += decoder.decode(value, { stream: true });
+
+        let newline: number;
+        while ((newline = buffer.indexOf("\n")) >= 0) {
+          const line = buffer.slice(0, newline).trim();
+          buffer = buffer.slice(newline + 1);
+          if (!line.startsWith("data:")) continue;
+          const data = line.slice(5).trim();
+          if (data === "[DONE]") return;
+          const json = JSON.parse(data);
+          const choice = json.choices?.[0];
+          yield {
+            text: choice?.delta?.content ?? "",
+            usage: toUsage(json.usage),
+            finishReason: toFinishReason(choice?.finish_reason),
+          };
+        }
+      }
+    },
+
+    async countTokens({ contents }): Promise<number> {
+      // No standard tokenize endpoint across servers; use the 1 token ~= 4 chars approximation.
+      return Math.ceil(getContentText(contents).length / 4);
+    },
+  };
+};
@@ -0,0 +1,213 @@
+import {
+  LlmGenerationConfig,
+  LlmProvider,
+  LlmRequest,
+  LlmResponse,
+  LlmStreamChunk,
+  getContentParts,
+  getContentText,
+  isImagePart,
+} from "./llmProvider";
+import { cacheKeyPayload, computeCacheKey } from "../responseCache";
+import { abortableDelay, throwIfAborted } from "../retryPolicy";
+
+/**
+ * Record/replay wrappers. The recording provider passes every request through to a real
+ * provider and logs the exchange; the replay provider answers from such a log without
+ * touching the network, so a bug report's recording re-runs the pipeline deterministically.
+ *
+ * Exchanges are matched by request key (SHA-256 of model + config + full contents), not by
+ * position, so parallel scheduling order doesn't matter. Identical requests are served in
+ * the order they were recorded. Failed calls are recorded too and replayed as the same
+ * error, so retries and fallbacks take the same path. Streamed calls are stored as one
+ * complete response and replayed as a single chunk.
+ * Where WebCrypto is unavailable, the key is a plain string hash instead.
+ */
+
+export type LlmExchange = {
+  seq: number;
+  key: string;
+  model: string;
+  config?: LlmGenerationConfig;
+  /** Text parts of the request. Images are not stored, only counted (they're part of `key`). */
+  prompt: string;
+  imageCount: number;
+  response?: LlmResponse;
+  error?: { message: string; status?: number };
+  /** Ms since the recording started. */
+  startedAtMs: number;
+  durationMs: number;
+};
+
+export type LlmRecording = {
+  version: 1;
+  createdAt: string;
+  provider: string;
+  exchanges: LlmExchange[];
+};
+
+/** 53-bit string hash (cyrb53) for origins without WebCrypto. Such keys only match recordings made the same way. */
+const plainHash = (text: string): string => {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const c = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ c, 2654435761);
+    h2 = Math.imul(h2 ^ c, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return `plain-${(4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16)}`;
+};
+
+const requestKey = async (request: LlmRequest): Promise<string> =>
+  (await computeCacheKey(request.model, request.config, request.contents)) ??
+  plainHash(cacheKeyPayload(request.model, request.config, request.contents));
+
+export type RecordingProvider = LlmProvider & {
+  /** Snapshot of everything recorded so far. */
+  getRecording: () => LlmRecording;
+};
+
+export const createRecordingProvider = (inner: LlmProvider): RecordingProvider => {
+  const startedAt = Date.now();
+  const exchanges: LlmExchange[] = [];
+
+  const beginExchange = async (request: LlmRequest): Promise<LlmExchange> => {
+    const exchange: LlmExchange = {
+      seq: exchanges.length,
+      key: await requestKey(request),
+      model: request.model,
+      config: request.config,
+      prompt: getContentText(request.contents),
+      imageCount: getContentParts(request.contents).filter(isImagePart).length,
+      startedAtMs: Date.now() - startedAt,
+      durationMs: 0,
+    };
+    exchanges.push(exchange);
+    return exchange;
+  };
+
+  const recordError = (exchange: LlmExchange, request: LlmRequest, err: any) => {
+    // The caller aborted the attempt (per-attempt timeout, or a stop that ends the run anyway):
+    // record it as a timeout so replay takes the same retry path.
+    exchange.error = request.signal?.aborted
+      ? { message: "TIMEOUT: attempt aborted while recording" }
+      : { message: err?.message ?? String(err), status: typeof err?.status === "number" ? err.status : undefined };
+  };
+
+  const finishExchange = (exchange: LlmExchange) => {
+    exchange.durationMs = Date.now() - startedAt - exchange.startedAtMs;
+  };
+
+  const generateContentStream = inner.generateContentStream;
+
+  return {
+    name: `recording(${inner.name})`,
+
+    async generateContent(request: LlmRequest): Promise<LlmResponse> {
+      const exchange = await beginExchange(request);
+      try {
+        const response = await inner.generateContent(request);
+        exchange.response = response;
+        return response;
+      } catch (err) {
+        recordError(exchange, request, err);
+        throw err;
+      } finally {
+        finishExchange(exchange);
+      }
+    },
+
+    ...(generateContentStream && {
+      async *generateContentStream(request: LlmRequest): AsyncIterable<LlmStreamChunk> {
+        const exchange = await beginExchange(request);
+        const response: LlmResponse = { text: "" };
+        try {
+          for await (const chunk of generateContentStream.call(inner, request)) {
+            response.text += chunk.text;
+            if (chunk.usage) response.usage = chunk.usage;
+            if (chunk.finishReason) response.finishReason = chunk.finishReason;
+            yield chunk;
+          }
+          exchange.response = response;
+        } catch (err) {
+          recordError(exchange, request, err);
+          throw err;
+        } finally {
+          finishExchange(exchange);
+        }
+      },
+    }),
+
+    countTokens: (request) => inner.countTokens(request),
+
+    getRecording: () => ({
+      version: 1,
+      createdAt: new Date(startedAt).toISOString(),
+      provider: inner.name,
+      // Calls still in flight have no outcome yet and can't be replayed.
+      exchanges: exchanges.filter((e) => e.response || e.error),
+    }),
+  };
+};
+
+export type ReplayOptions = {
+  /** Wait each exchange's recorded duration before answering. Defaults to false. */
+  simulateLatency?: boolean;
+};
+
+export type ReplayProvider = LlmProvider & {
+  /** Requests that had no recorded exchange left to serve. */
+  readonly misses: string[];
+};
+
+export const createReplayProvider = (recording: LlmRecording, options: ReplayOptions = {}): ReplayProvider => {
+  const queues = new Map<string, LlmExchange[]>();
+  for (const exchange of [...recording.exchanges].sort((a, b) => a.seq - b.seq)) {
+    const queue = queues.get(exchange.key) ?? [];
+    queue.push(exchange);
+    queues.set(exchange.key, queue);
+  }
+  const misses: string[] = [];
+
+  const generateContent = async (request: LlmRequest): Promise<LlmResponse> => {
+    const key = await requestKey(request);
+    const exchange = queues.get(key)?.shift();
+    if (!exchange) {
+      misses.push(key);
+      throw new Error(`REPLAY_MISS: no recorded response for ${request.model} request ${key.slice(0, 12)}.`);
+    }
+
+    if (options.simulateLatency) await abortableDelay(exchange.durationMs, request.signal);
+    throwIfAborted(request.signal);
+
+    if (exchange.error) {
+      throw Object.assign(new Error(exchange.error.message), { status: exchange.error.status });
+    }
+    return exchange.response ?? { text: "" };
+  };
+
+  return {
+    name: `replay(${recording.provider})`,
+    misses,
+    generateContent,
+
+    async *generateContentStream(request: LlmRequest): AsyncIterable<LlmStreamChunk> {
+      yield await generateContent(request);
+    },
+
+    async countTokens({ contents }): Promise<number> {
+      return Math.ceil(getContentText(contents).length / 4);
+    },
+  };
+};
+
+/** Parses and sanity-checks a recording file's contents. */
+export const parseRecording = (json: string): LlmRecording => {
+  const data = JSON.parse(json);
+  if (data?.version !== 1 || !Array.isArray(data.exchanges)) {
+    throw new Error("Not a valid LLM session recording (expected version 1 with an exchanges array).");
+  }
+  return data as LlmRecording;
+};
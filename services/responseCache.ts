@@ -0,0 +1,131 @@
+/* =====================================================================================
+   RESPONSE CACHE
+   Content-addressed cache of model responses, persisted in IndexedDB so re-running a step
+   on unchanged text (after a crash, a reload, or a tweak to a later step) costs nothing.
+   Key = SHA-256 of model + generation config + the full prompt, plus the processing mode and
+   the checks a response had to pass, so a response is only served under the same checks.
+   Silently disabled where IndexedDB or WebCrypto is unavailable (e.g. Node test runs, or
+   the app opened over plain http:// from another machine, which is not a secure origin).
+===================================================================================== */
+
+import type { LlmContents, LlmGenerationConfig } from "./providers/llmProvider";
+
+const DB_NAME = "pdf-ocr-response-cache";
+const DB_VERSION = 1;
+const STORE = "responses";
+
+type CacheEntry = {
+  key: string;
+  model: string;
+  text: string;
+  createdAt: number;
+};
+
+export type ResponseCacheStats = {
+  entries: number;
+  /** Approximate size of the stored response texts (UTF-16, 2 bytes per char). */
+  bytes: number;
+};
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+const openDb = (): Promise<IDBDatabase | null> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve) => {
+      if (typeof indexedDB === "undefined") return resolve(null);
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE, { keyPath: "key" });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.warn("Response cache unavailable:", request.error);
+        resolve(null);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/** Processing mode and names of the guards a cached response passed. */
+export type CacheChecks = { mode: string; guards: string[] };
+
+/** The request as one string; the cache key is its hash. */
+export const cacheKeyPayload = (
+  model: string,
+  config: LlmGenerationConfig | undefined,
+  contents: LlmContents,
+  checks?: CacheChecks
+): string => JSON.stringify({ model, config: config ?? {}, contents, ...(checks && { checks }) });
+
+/** SHA-256 hex key of a request, or null where WebCrypto is unavailable (callers then skip the cache). */
+export const computeCacheKey = async (
+  model: string,
+  config: LlmGenerationConfig | undefined,
+  contents: LlmContents,
+  checks?: CacheChecks
+): Promise<string | null> => {
+  if (typeof crypto === "undefined" || !crypto.subtle) return null;
+  const payload = cacheKeyPayload(model, config, contents, checks);
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(payload));
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+};
+
+/** Returns the cached response text, or null on a miss. Never throws. */
+export const getCachedResponse = async (key: string): Promise<string | null> => {
+  try {
+    const db = await openDb();
+    if (!db) return null;
+    const entry = await promisify<CacheEntry | undefined>(
+      db.transaction(STORE, "readonly").objectStore(STORE).get(key)
+    );
+    return entry?.text ?? null;
+  } catch (e) {
+    console.warn("Response cache read failed:", e);
+    return null;
+  }
+};
+
+export const putCachedResponse = async (key: string, model: string, text: string): Promise<void> => {
+  try {
+    const db = await openDb();
+    if (!db) return;
+    const entry: CacheEntry = { key, model, text, createdAt: Date.now() };
+    await promisify(db.transaction(STORE, "readwrite").objectStore(STORE).put(entry));
+  } catch (e) {
+    console.warn("Response cache write failed:", e);
+  }
+};
+
+export const getResponseCacheStats = async (): Promise<ResponseCacheStats> => {
+  const db = await openDb();
+  if (!db) return { entries: 0, bytes: 0 };
+
+  return new Promise((resolve, reject) => {
+    const stats: ResponseCacheStats = { entries: 0, bytes: 0 };
+    const cursorRequest = db.transaction(STORE, "readonly").objectStore(STORE).openCursor();
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor) return resolve(stats);
+      const entry = cursor.value as CacheEntry;
+      stats.entries++;
+      stats.bytes += (entry.text.length + entry.key.length) * 2;
+      cursor.continue();
+    };
+    cursorRequest.onerror = () => reject(cursorRequest.error);
+  });
+};
+
+export const clearResponseCache = async (): Promise<void> => {
+  const db = await openDb();
+  if (!db) return;
+  await promisify(db.transaction(STORE, "readwrite").objectStore(STORE).clear());
+};
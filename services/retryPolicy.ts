@@ -0,0 +1,200 @@
+/* =====================================================================================
+   RETRY POLICY
+   Single place that decides whether a failed model call is retried, and how long to wait.
+   Errors are classified into typed LlmErrors instead of string-matching at each call site.
+===================================================================================== */
+
+export type LlmErrorKind =
+  | "RATE_LIMIT"
+  | "TIMEOUT"
+  | "SERVER"
+  | "SAFETY_BLOCK"
+  | "TRUNCATION"
+  | "VALIDATION"
+  | "ABORTED"
+  | "UNKNOWN";
+
+export class LlmError extends Error {
+  readonly kind: LlmErrorKind;
+  readonly status?: number;
+  /** Server-requested wait (Retry-After header or RetryInfo.retryDelay), in ms. */
+  readonly retryAfterMs?: number;
+  /** Number of attempts made before giving up (set by withRetry). */
+  attempts?: number;
+
+  constructor(kind: LlmErrorKind, message: string, details: { status?: number; retryAfterMs?: number } = {}) {
+    super(message);
+    this.name = "LlmError";
+    this.kind = kind;
+    this.status = details.status;
+    this.retryAfterMs = details.retryAfterMs;
+  }
+}
+
+/* --- Cancellation --- */
+
+export const createAbortError = () => new LlmError("ABORTED", "Processing stopped by user.");
+
+export const isAbortError = (err: unknown): boolean =>
+  err instanceof LlmError ? err.kind === "ABORTED" : (err as any)?.name === "AbortError";
+
+export const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw createAbortError();
+};
+
+/* --- Classification --- */
+
+const parseRetryAfterMs = (err: any): number | undefined => {
+  if (typeof err?.retryAfterMs === "number") return err.retryAfterMs;
+  const message: string = err?.message ?? "";
+  // Gemini: google.rpc.RetryInfo -> "retryDelay": "32s"
+  const rpc = message.match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/);
+  if (rpc) return Math.round(parseFloat(rpc[1]) * 1000);
+  const header = message.match(/retry[- ]after[:\s]+(\d+(?:\.\d+)?)/i);
+  if (header) return Math.round(parseFloat(header[1]) * 1000);
+  return undefined;
+};
+
+/** Maps any thrown value (SDK error, fetch error, our own errors) to a typed LlmError. */
+export const classifyError = (err: unknown): LlmError => {
+  if (err instanceof LlmError) return err;
+  if (isAbortError(err)) return createAbortError();
+
+  const e = err as any;
+  const message: string = e?.message ?? String(err);
+  const status: number | undefined = typeof e?.status === "number" ? e.status : undefined;
+  const details = { status, retryAfterMs: parseRetryAfterMs(e) };
+
+  if (status === 429 || /\b429\b|RESOURCE_EXHAUSTED|quota/i.test(message)) {
+    return new LlmError("RATE_LIMIT", message, details);
+  }
+  if (/TIMEOUT|DEADLINE_EXCEEDED|\b504\b/i.test(message) || status === 504) {
+    return new LlmError("TIMEOUT", message, details);
+  }
+  if (
+    (status !== undefined && status >= 500) ||
+    // Status codes and exact upstream phrases; a bare "server" also appears in local provider and proxy errors.
+    /\b50[0-3]\b|Internal Server Error|Service Unavailable|Bad Gateway|\bUNAVAILABLE\b/.test(message) ||
+    /internal error|overloaded/i.test(message)
+  ) {
+    return new LlmError("SERVER", message, details);
+  }
+  if (/SAFETY|PROHIBITED_CONTENT|BLOCKLIST|RECITATION|blocked/i.test(message)) {
+    return new LlmError("SAFETY_BLOCK", message, details);
+  }
+  if (/MAX_TOKENS|truncat/i.test(message)) {
+    return new LlmError("TRUNCATION", message, details);
+  }
+  if (/VALIDATION_FAILED/.test(message)) {
+    return new LlmError("VALIDATION", message, details);
+  }
+  return new LlmError("UNKNOWN", message, details);
+};
+
+/* --- Policies --- */
+
+export type RetryPolicy = {
+  maxAttempts: number;
+  backoff: "constant" | "linear" | "exponential";
+  baseDelayMs: number;
+  /** Base delay used instead of baseDelayMs after a RATE_LIMIT error. */
+  rateLimitDelayMs: number;
+  maxDelayMs: number;
+  /** Random 0..jitterMs added to every wait so parallel callers don't retry in lockstep. */
+  jitterMs: number;
+  retryOn: LlmErrorKind[];
+};
+
+export type RetryStep = "ocr" | "chunk" | "comparison" | "tableLinearization" | "utility";
+
+const TRANSIENT: LlmErrorKind[] = ["RATE_LIMIT", "TIMEOUT", "SERVER"];
+
+const DEFAULT_RETRY_POLICIES: Record<RetryStep, RetryPolicy> = {
+  ocr: { maxAttempts: 3, backoff: "linear", baseDelayMs: 2000, rateLimitDelayMs: 5000, maxDelayMs: 60_000, jitterMs: 500, retryOn: TRANSIENT },
+  chunk: { maxAttempts: 5, backoff: "exponential", baseDelayMs: 2000, rateLimitDelayMs: 5000, maxDelayMs: 120_000, jitterMs: 500, retryOn: [...TRANSIENT, "VALIDATION"] },
+  comparison: { maxAttempts: 3, backoff: "linear", baseDelayMs: 3000, rateLimitDelayMs: 5000, maxDelayMs: 60_000, jitterMs: 500, retryOn: TRANSIENT },
+  tableLinearization: { maxAttempts: 3, backoff: "constant", baseDelayMs: 3000, rateLimitDelayMs: 5000, maxDelayMs: 60_000, jitterMs: 500, retryOn: TRANSIENT },
+  utility: { maxAttempts: 2, backoff: "exponential", baseDelayMs: 2000, rateLimitDelayMs: 5000, maxDelayMs: 30_000, jitterMs: 500, retryOn: TRANSIENT },
+};
+
+const policyOverrides: Partial<Record<RetryStep, Partial<RetryPolicy>>> = {};
+
+/** Overrides part of a step's policy for the rest of the session (e.g. from DevTools). */
+export const configureRetryPolicy = (step: RetryStep, patch: Partial<RetryPolicy>) => {
+  policyOverrides[step] = { ...policyOverrides[step], ...patch };
+};
+
+export const getRetryPolicy = (step: RetryStep): RetryPolicy => ({
+  ...DEFAULT_RETRY_POLICIES[step],
+  ...policyOverrides[step],
+});
+
+/** Wait before the next attempt. `attempt` is the 1-based attempt that just failed. */
+export const computeRetryDelay = (policy: RetryPolicy, error: LlmError, attempt: number): number => {
+  const base = error.kind === "RATE_LIMIT" ? policy.rateLimitDelayMs : policy.baseDelayMs;
+  const factor =
+    policy.backoff === "exponential" ? Math.pow(2, attempt - 1) : policy.backoff === "linear" ? attempt : 1;
+  const computed = Math.min(base * factor, policy.maxDelayMs);
+  const serverRequested = error.retryAfterMs ?? 0;
+  return Math.max(computed, serverRequested) + Math.random() * policy.jitterMs;
+};
+
+/** setTimeout-based wait that rejects with an ABORTED LlmError as soon as `signal` fires. */
+export const abortableDelay = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(createAbortError());
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+type WithRetryOptions = {
+  /** Human-readable operation name for the activity log (e.g. "OCR page 3"). */
+  label: string;
+  onLog?: (message: string) => void;
+  policy?: Partial<RetryPolicy>;
+  /** Cancels pending attempts and backoff waits. */
+  signal?: AbortSignal;
+};
+
+/**
+ * Runs `operation` under the step's retry policy.
+ * Resolves with the first successful result; rejects with the classified LlmError
+ * (attempts set) once the error is not retryable or attempts are exhausted.
+ */
+export const withRetry = async <T>(
+  step: RetryStep,
+  operation: (attempt: number) => Promise<T>,
+  { label, onLog, policy: policyPatch, signal }: WithRetryOptions
+): Promise<T> => {
+  const policy = { ...getRetryPolicy(step), ...policyPatch };
+
+  for (let attempt = 1; ; attempt++) {
+    throwIfAborted(signal);
+    try {
+      return await operation(attempt);
+    } catch (err) {
+      const error = classifyError(err);
+      if (error.kind === "ABORTED") throw error;
+      const retryable = policy.retryOn.includes(error.kind);
+
+      if (!retryable || attempt >= policy.maxAttempts) {
+        error.attempts = attempt;
+        onLog?.(`✖ [${error.kind}] ${label} failed after ${attempt} attempt(s): ${error.message}`);
+        throw error;
+      }
+
+      const waitMs = computeRetryDelay(policy, error, attempt);
+      onLog?.(
+        `⚠️ [${error.kind}] ${label}: retry ${attempt + 1}/${policy.maxAttempts} in (${(waitMs / 1000).toFixed(1)}s)`
+      );
+      await abortableDelay(waitMs, signal);
+    }
+  }
+};
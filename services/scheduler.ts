@@ -0,0 +1,190 @@
+/* =====================================================================================
+   SCHEDULER
+   Runs OCR pages and text chunks in parallel without tripping provider rate limits.
+   Every model call draws from a per-model token bucket (requests + tokens per minute);
+   concurrency is halved on each 429 and grows back one slot at a time on success.
+===================================================================================== */
+
+import { LlmRequest, getContentParts, isImagePart } from "./providers/llmProvider";
+import { abortableDelay, isAbortError, throwIfAborted } from "./retryPolicy";
+
+export type ModelBudget = {
+  requestsPerMinute: number;
+  /** Estimated prompt tokens per minute (see estimateRequestTokens). */
+  tokensPerMinute: number;
+};
+
+export type SchedulerConfig = {
+  /** Upper bound on items processed at the same time. */
+  concurrency: number;
+  /** Budgets keyed by model name; models without an entry use `defaultBudget`. */
+  budgets: Record<string, ModelBudget>;
+  defaultBudget: ModelBudget;
+  /** Pause applied to a model after a 429 that carries no Retry-After hint. */
+  rateLimitPauseMs: number;
+};
+
+const DEFAULT_SCHEDULER_CONFIG: SchedulerConfig = {
+  concurrency: 4,
+  budgets: {},
+  defaultBudget: { requestsPerMinute: 60, tokensPerMinute: 1_000_000 },
+  rateLimitPauseMs: 10_000,
+};
+
+let schedulerConfig: SchedulerConfig = { ...DEFAULT_SCHEDULER_CONFIG };
+
+/** Live concurrency limit: starts at the configured value, shrinks on 429s. */
+let currentConcurrency = schedulerConfig.concurrency;
+let successesSinceResize = 0;
+
+export const configureScheduler = (patch: Partial<SchedulerConfig>) => {
+  schedulerConfig = {
+    ...schedulerConfig,
+    ...patch,
+    budgets: { ...schedulerConfig.budgets, ...patch.budgets },
+  };
+  currentConcurrency = Math.max(1, schedulerConfig.concurrency);
+  successesSinceResize = 0;
+};
+
+export const getSchedulerConfig = (): SchedulerConfig => schedulerConfig;
+
+export const getCurrentConcurrency = () => currentConcurrency;
+
+/* --- Per-model token buckets --- */
+
+type Bucket = {
+  requests: number;
+  tokens: number;
+  updatedAt: number;
+  pausedUntil: number;
+};
+
+const buckets = new Map<string, Bucket>();
+
+const getBudget = (model: string): ModelBudget => schedulerConfig.budgets[model] ?? schedulerConfig.defaultBudget;
+
+/** Refills the model's bucket for the time elapsed since its last update. */
+const refillBucket = (model: string, budget: ModelBudget): Bucket => {
+  const now = Date.now();
+  let bucket = buckets.get(model);
+  if (!bucket) {
+    bucket = { requests: budget.requestsPerMinute, tokens: budget.tokensPerMinute, updatedAt: now, pausedUntil: 0 };
+    buckets.set(model, bucket);
+  }
+  const elapsedMinutes = (now - bucket.updatedAt) / 60_000;
+  bucket.requests = Math.min(budget.requestsPerMinute, bucket.requests + elapsedMinutes * budget.requestsPerMinute);
+  bucket.tokens = Math.min(budget.tokensPerMinute, bucket.tokens + elapsedMinutes * budget.tokensPerMinute);
+  bucket.updatedAt = now;
+  return bucket;
+};
+
+// Gemini bills a page image as a fixed number of tokens regardless of resolution.
+const IMAGE_TOKEN_ESTIMATE = 258;
+
+/** Rough prompt size: 1 token ~= 4 chars (same approximation as chunkingService). */
+export const estimateRequestTokens = (request: Pick<LlmRequest, "contents">): number =>
+  getContentParts(request.contents).reduce(
+    (sum, part) => sum + (isImagePart(part) ? IMAGE_TOKEN_ESTIMATE : Math.ceil(part.text.length / 4)),
+    0
+  );
+
+/** Waits until `model` has budget for one request of `estimatedTokens`, then consumes it. */
+export const acquireModelBudget = async (model: string, estimatedTokens: number, signal?: AbortSignal) => {
+  for (;;) {
+    throwIfAborted(signal);
+    const budget = getBudget(model);
+    const bucket = refillBucket(model, budget);
+    // A request larger than the whole per-minute budget would otherwise wait forever.
+    const cost = Math.min(estimatedTokens, budget.tokensPerMinute);
+    const now = Date.now();
+
+    if (now >= bucket.pausedUntil && bucket.requests >= 1 && bucket.tokens >= cost) {
+      bucket.requests -= 1;
+      bucket.tokens -= cost;
+      return;
+    }
+
+    const waitMs = Math.max(
+      bucket.pausedUntil - now,
+      ((1 - bucket.requests) / budget.requestsPerMinute) * 60_000,
+      ((cost - bucket.tokens) / budget.tokensPerMinute) * 60_000,
+      50
+    );
+    await abortableDelay(waitMs, signal);
+  }
+};
+
+/** Called on a 429: pauses the model and halves concurrency. */
+export const reportRateLimit = (model: string, retryAfterMs?: number) => {
+  const bucket = refillBucket(model, getBudget(model));
+  bucket.pausedUntil = Math.max(bucket.pausedUntil, Date.now() + (retryAfterMs ?? schedulerConfig.rateLimitPauseMs));
+  bucket.requests = 0;
+  currentConcurrency = Math.max(1, Math.floor(currentConcurrency / 2));
+  successesSinceResize = 0;
+};
+
+/** Called on every successful request: regains one concurrency slot per `currentConcurrency` successes. */
+export const reportRequestSuccess = () => {
+  if (currentConcurrency >= schedulerConfig.concurrency) return;
+  successesSinceResize++;
+  if (successesSinceResize >= currentConcurrency) {
+    currentConcurrency++;
+    successesSinceResize = 0;
+  }
+};
+
+/* --- Ordered parallel map --- */
+
+type RunScheduledOptions<T> = {
+  signal?: AbortSignal;
+  /** Indices that are already done (e.g. when resuming) and must not run again. */
+  skip?: (index: number) => boolean;
+  /** Fires as each item finishes, in completion order. `completed` includes skipped items. */
+  onItemDone?: (index: number, result: T, completed: number) => void;
+};
+
+/**
+ * Runs `worker` over `items` with at most the current concurrency in flight.
+ * Results keep the input order. When `signal` aborts, no new items start and the array is
+ * returned with unfinished slots left undefined. Any other worker error is rethrown once
+ * in-flight items have settled.
+ */
+export const runScheduled = async <I, T>(
+  items: I[],
+  worker: (item: I, index: number) => Promise<T>,
+  { signal, skip, onItemDone }: RunScheduledOptions<T> = {}
+): Promise<(T | undefined)[]> => {
+  const results: (T | undefined)[] = new Array(items.length).fill(undefined);
+  const queue = items.map((_, i) => i).filter((i) => !skip?.(i));
+  let completed = items.length - queue.length;
+  let active = 0;
+  let failure: unknown = null;
+
+  await new Promise<void>((resolve) => {
+    const launch = () => {
+      while (!failure && !signal?.aborted && queue.length > 0 && active < currentConcurrency) {
+        const index = queue.shift()!;
+        active++;
+        worker(items[index], index)
+          .then((result) => {
+            results[index] = result;
+            completed++;
+            onItemDone?.(index, result, completed);
+          })
+          .catch((err) => {
+            if (!failure) failure = err;
+          })
+          .finally(() => {
+            active--;
+            launch();
+          });
+      }
+      if (active === 0 && (queue.length === 0 || failure || signal?.aborted)) resolve();
+    };
+    launch();
+  });
+
+  if (failure && !isAbortError(failure)) throw failure;
+  return results;
+};
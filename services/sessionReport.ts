@@ -0,0 +1,57 @@
+/* =====================================================================================
+   SESSION REPORT
+   Plain-text summary of a processing session for download: mode, timing, API usage,
+   failed chunks and the full activity log.
+===================================================================================== */
+
+import { ExtractionStats, ProcessingMode } from "../types";
+import type { ApiCallTracker } from "../hooks/usePerformanceTracker";
+import type { UsageSnapshot, UsageTotals } from "./usageLedger";
+import { describeProcessingPolicy } from "./processingPolicy";
+
+export type SessionReportInput = {
+  fileName: string;
+  documentLanguage: string;
+  processingMode: ProcessingMode;
+  elapsedSeconds: number;
+  apiCalls: ApiCallTracker;
+  usage: UsageSnapshot;
+  extractionStats: ExtractionStats | null;
+  failedChunks: number[];
+  log: string[];
+};
+
+const formatTotals = ({ calls, promptTokens, outputTokens, cost }: UsageTotals) =>
+  `${calls} calls, ${promptTokens} in / ${outputTokens} out tokens, $${cost.toFixed(4)}`;
+
+export const buildSessionReport = (input: SessionReportInput): string => {
+  const { usage, apiCalls, extractionStats } = input;
+  const lines = [
+    `# Session Report: ${input.fileName}`,
+    `Generated: ${new Date().toISOString()}`,
+    `Processing mode: ${describeProcessingPolicy(input.processingMode)}`,
+    `Document language: ${input.documentLanguage}`,
+    `Total time: ${input.elapsedSeconds.toFixed(1)}s`,
+    "",
+    "## API",
+    `Calls: ${apiCalls.total} (flash ${apiCalls.flash}, pro ${apiCalls.pro}), cache hits: ${apiCalls.cacheHits}`,
+    `Usage: ${formatTotals(usage.total)}${usage.budgetUsd !== null ? ` (budget $${usage.budgetUsd.toFixed(2)})` : ""}`,
+    ...Object.entries(usage.byStep).map(([step, totals]) => `  ${step}: ${formatTotals(totals)}`),
+    ...Object.entries(usage.byModel).map(([model, totals]) => `  ${model}: ${formatTotals(totals)}`),
+  ];
+
+  if (extractionStats) {
+    lines.push(
+      "",
+      "## Extraction",
+      `Method: ${extractionStats.method}, pages: ${extractionStats.totalPages} (text ${extractionStats.textPages}, image ${extractionStats.imagePages}${extractionStats.skippedPages ? `, ${extractionStats.skippedPages} not selected` : ""}), avg ${extractionStats.averageCharsPerPage} chars/page`
+    );
+  }
+
+  if (input.failedChunks.length > 0) {
+    lines.push("", "## Failed Chunks", `Original text kept for chunks: ${input.failedChunks.join(", ")}`);
+  }
+
+  lines.push("", "## Log", ...input.log);
+  return lines.join("\n");
+};
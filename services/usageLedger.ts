@@ -0,0 +1,117 @@
+/* =====================================================================================
+   USAGE LEDGER
+   Token usage and estimated cost of every model call, broken down by step and by model.
+   Also holds the optional spending budget checked before each chunk.
+===================================================================================== */
+
+import type { LlmUsage } from "./providers/llmProvider";
+
+export type ModelPrice = {
+  /** USD per 1M prompt tokens. */
+  inputPerMillion: number;
+  /** USD per 1M output tokens. */
+  outputPerMillion: number;
+};
+
+export type UsageTotals = {
+  calls: number;
+  promptTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  /** Estimated USD, from the price table. */
+  cost: number;
+};
+
+export type UsageSnapshot = {
+  total: UsageTotals;
+  byStep: Record<string, UsageTotals>;
+  byModel: Record<string, UsageTotals>;
+  /** Max USD for the session; null = unlimited. */
+  budgetUsd: number | null;
+};
+
+// Models at or above this prompt price (USD per 1M tokens) count as the premium tier.
+const PREMIUM_INPUT_PRICE_PER_MILLION = 1;
+
+const emptyTotals = (): UsageTotals => ({ calls: 0, promptTokens: 0, outputTokens: 0, totalTokens: 0, cost: 0 });
+
+let priceTable: Record<string, ModelPrice> = {};
+let currentStep = "other";
+let snapshot: UsageSnapshot = { total: emptyTotals(), byStep: {}, byModel: {}, budgetUsd: null };
+const listeners = new Set<(snapshot: UsageSnapshot) => void>();
+
+const notify = () => listeners.forEach((listener) => listener(snapshot));
+
+/* --- Configuration --- */
+
+/** Merges prices into the table. Models without a price are counted at $0. */
+export const configurePriceTable = (prices: Record<string, ModelPrice>) => {
+  priceTable = { ...priceTable, ...prices };
+};
+
+export const getPriceTable = (): Record<string, ModelPrice> => priceTable;
+
+/** Price tier of a model, from the price table. Unpriced models count as "flash", as they cost $0 here. */
+export const getPriceTier = (model: string): "flash" | "pro" =>
+  (priceTable[model]?.inputPerMillion ?? 0) >= PREMIUM_INPUT_PRICE_PER_MILLION ? "pro" : "flash";
+
+export const setUsageBudget = (budgetUsd: number | null) => {
+  snapshot = { ...snapshot, budgetUsd };
+  notify();
+};
+
+/** Step that subsequent calls are attributed to (e.g. "step1", "ocr"). */
+export const setUsageStep = (step: string) => {
+  currentStep = step;
+};
+
+/* --- Recording --- */
+
+export const estimateCost = (model: string, usage: LlmUsage): number => {
+  const price = priceTable[model];
+  if (!price) return 0;
+  return (usage.promptTokens * price.inputPerMillion + usage.outputTokens * price.outputPerMillion) / 1_000_000;
+};
+
+const addUsage = (totals: UsageTotals | undefined, usage: LlmUsage, cost: number): UsageTotals => {
+  const base = totals ?? emptyTotals();
+  return {
+    calls: base.calls + 1,
+    promptTokens: base.promptTokens + usage.promptTokens,
+    outputTokens: base.outputTokens + usage.outputTokens,
+    totalTokens: base.totalTokens + usage.totalTokens,
+    cost: base.cost + cost,
+  };
+};
+
+export const recordUsage = (model: string, usage: LlmUsage) => {
+  const cost = estimateCost(model, usage);
+  snapshot = {
+    ...snapshot,
+    total: addUsage(snapshot.total, usage, cost),
+    byStep: { ...snapshot.byStep, [currentStep]: addUsage(snapshot.byStep[currentStep], usage, cost) },
+    byModel: { ...snapshot.byModel, [model]: addUsage(snapshot.byModel[model], usage, cost) },
+  };
+  notify();
+};
+
+export const getUsageSnapshot = (): UsageSnapshot => snapshot;
+
+/** Clears the counters; the budget is kept. */
+export const resetUsage = () => {
+  snapshot = { total: emptyTotals(), byStep: {}, byModel: {}, budgetUsd: snapshot.budgetUsd };
+  notify();
+};
+
+export const subscribeUsage = (listener: (snapshot: UsageSnapshot) => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/* --- Budget --- */
+
+/** True when spending `nextCostEstimate` more would go over the budget. */
+export const wouldExceedBudget = (nextCostEstimate: number): boolean =>
+  snapshot.budgetUsd !== null && snapshot.total.cost + nextCostEstimate > snapshot.budgetUsd;
@@ -2,6 +2,7 @@
 export enum ProcessingState {
   IDLE = 'IDLE',
   ANALYZING_PDF = 'ANALYZING_PDF',
+  SELECTING_PAGES = 'SELECTING_PAGES',
   AWAITING_COMPARISON_FILE = 'AWAITING_COMPARISON_FILE',
   AWAITING_TXT_ACTION = 'AWAITING_TXT_ACTION',
   COMPARING_TEXT = 'COMPARING_TEXT',
@@ -10,6 +11,8 @@ export enum ProcessingState {
   CONFIGURING_HEADLINES = 'CONFIGURING_HEADLINES',
   CONFIGURING_CONTENT = 'CONFIGURING_CONTENT',
   REVIEWING_OCR = 'REVIEWING_OCR',
+  REVIEWING_LAYOUT = 'REVIEWING_LAYOUT',
+  REVIEWING_HEADERS = 'REVIEWING_HEADERS',
   REVIEWING_JSON = 'REVIEWING_JSON',
   REVIEWING_CHANGES = 'REVIEWING_CHANGES',
   REVIEWING_STEP3_FINAL = 'REVIEWING_STEP3_FINAL',
@@ -32,8 +35,86 @@ export enum ProcessingMode {
 }
 
 export type OcrPage = {
+  pageNumber: number; // 1-based page in the PDF
   ocrText: string;
   imageBase64: string;
+  lineBoxes?: OcrLineBox[]; // Where the lines of ocrText sit on the image; absent when the model returned none
+};
+
+/** Region of one line of OCR text on the page image, as fractions (0..1) of the image size. */
+export type OcrLineBox = {
+  line: number; // 0-based line of the page text
+  top: number;
+  left: number;
+  bottom: number;
+  right: number;
+};
+
+/** Canvas preprocessing of a page image before OCR (services/processors/imagePreprocessing.ts). */
+export type ImagePreprocessing = {
+  dpi: number | null; // Render at this resolution for the page size; null keeps the fixed default scale
+  grayscale: boolean;
+  contrastStretch: boolean;
+  binarize: boolean; // Otsu threshold
+  deskew: boolean;
+  despeckle: boolean;
+};
+
+export type PreprocessingPresetId = 'none' | 'cleanPrint' | 'faintScan' | 'fax' | 'custom';
+
+/** Settings for OCR'ing one page again from the OCR review. Unset fields keep the OCR step's defaults. */
+export type ReOcrOptions = {
+  model?: string;
+  scale?: number; // Render scale, when preprocessing sets no DPI
+  preprocessing?: ImagePreprocessing;
+  extraInstruction?: string; // Added to the OCR prompt
+};
+
+/** Confidence in one OCR'd page (services/processors/ocrQuality.ts). Signals are 0..1, null when not measurable. */
+export type OcrQuality = {
+  score: number; // 0-100
+  signals: {
+    dictionary: number | null; // Common words of the document language
+    garbage: number | null; // Absence of stray symbols
+    lengthVsInk: number | null; // Text length against the ink on the page image
+    error: boolean; // The page came back as an [ERROR marker
+  };
+  reasons: string[];
+};
+
+/** Column handling for a native PDF page: detect it, or force a number of columns (1 = read as one column). */
+export type ColumnLayout = 'auto' | number;
+
+/** Typography of one native text line, in reading order. */
+export type StyledLine = {
+  pageNumber: number;
+  text: string;
+  fontSize: number;
+  bold: boolean;
+  caps: boolean; // All letters upper case
+};
+
+/** A line whose font tier suggests a headline, with the level proposed for it. */
+export type HeadlineCandidate = StyledLine & { level: number };
+
+/**
+ * A footnote found in a native page, in reading order: a raised reference number in the
+ * body, or a note in the smaller-font block at the bottom of the page.
+ */
+export type FootnoteMark =
+  | { kind: 'reference'; pageNumber: number; number: string; context: string } // context: text just before the number
+  | { kind: 'note'; pageNumber: number; number: string; firstLine: string; lastLine: string };
+
+/** How deterministic structure found in the PDF is used by a tagging step. */
+export type StructureHintMode = 'off' | 'hints' | 'direct';
+
+export type NativePage = {
+  pageNumber: number; // 1-based page in the PDF
+  text: string;
+  columnCount: number; // Columns the text was read in
+  layout: ColumnLayout; // Setting that produced `text`
+  lines: StyledLine[]; // Empty when extracted without layout
+  footnotes: FootnoteMark[]; // Empty when extracted without layout
 };
 
 export type SelectedSteps = {
@@ -45,12 +126,19 @@ export type SelectedSteps = {
 
 export type ExtractionStats = {
     method: 'Native Text' | 'OCR (All Pages)' | 'Hybrid (Text + OCR)';
-    totalPages: number;
+    totalPages: number; // Pages processed (the selection), not the whole PDF
     textPages: number;
     imagePages: number;
+    skippedPages: number; // Pages of the PDF left out by the page selection
     averageCharsPerPage: number;
 };
 
+/** Pages chosen for processing after upload: 1-based and ascending, out of the PDF's pageCount. */
+export type PageSelection = {
+    pages: number[];
+    pageCount: number;
+};
+
 export type ChatEntry = {
     id: string;
     role: 'user' | 'ai';